@@ -1,6 +1,43 @@
+import {
+	cacheKey,
+	type CachedResponse,
+	getCachedResponse,
+	isFresh,
+	renewCachedResponse,
+	type ResponseCache,
+	storeResponse,
+} from '../shared/cache'
+import { type NetworkConfig, networkOptions } from '../shared/network'
+import { fetchWithRetry, type RateLimiter, type ThrottleStats } from '../shared/rate-limit'
+
+/**
+ * How requests authenticate: a bearer token (HTTP access token, or an OAuth
+ * token on Cloud), or Basic auth with a username and app password.
+ */
+export type BitbucketAuth =
+	| { type: 'bearer'; token: string }
+	| { type: 'basic'; username: string; password: string }
+
 export interface BitbucketConfig {
 	baseURL: string
-	token: string
+	/** Unset on a shared server whose clients each send their own credentials */
+	auth?: BitbucketAuth
+	/** Bitbucket Server/Data Center (the default) or Bitbucket Cloud */
+	deployment?: 'server' | 'cloud'
+	/** Proxy and TLS settings; fetch defaults when unset */
+	network?: NetworkConfig
+	/** Client-side rate limit and retry policy shared by all calls */
+	rateLimiter?: RateLimiter
+	/** Collects the throttling of the current tool call */
+	throttle?: ThrottleStats
+	/** Cache for GET responses; every request goes to the server when unset */
+	cache?: ResponseCache
+	/** Revalidate cached responses for the current tool call instead of reusing them */
+	fresh?: boolean
+	/** Aborts every request of the current tool call */
+	signal?: AbortSignal
+	/** Epoch milliseconds after which page walks stop and return partial results */
+	deadline?: number
 }
 
 export interface FetchOptions {
@@ -8,6 +45,10 @@ export interface FetchOptions {
 	headers?: Record<string, string>
 	body?: any
 	signal?: AbortSignal
+	/** Retry busy responses; defaults to every method but POST */
+	retry?: boolean
+	/** Set to false to skip the response cache for this request */
+	cache?: boolean
 }
 
 export interface BitbucketResponse<T = any> {
@@ -18,24 +59,75 @@ export interface BitbucketResponse<T = any> {
 	data?: T
 }
 
+function authorizationHeader(auth: BitbucketAuth): string {
+	if (auth.type === 'basic') {
+		return `Basic ${Buffer.from(`${auth.username}:${auth.password}`).toString('base64')}`
+	}
+
+	return `Bearer ${auth.token}`
+}
+
+function parseResponse<T>(
+	status: number,
+	statusText: string,
+	text: string,
+	headers: Headers,
+): BitbucketResponse<T> {
+	const ok = status >= 200 && status < 300
+	const isJson = headers.get('content-type')?.includes('application/json')
+	
+	let data: T | undefined
+	
+	if (ok && isJson && text) {
+		try {
+			data = JSON.parse(text) as T
+		} catch {
+			// If JSON parsing fails, leave data undefined
+		}
+	}
+	
+	return {
+		ok,
+		status,
+		statusText,
+		text,
+		data,
+	}
+}
+
+function fromCache<T>(entry: CachedResponse): BitbucketResponse<T> {
+	return parseResponse<T>(entry.status, entry.statusText, entry.text, new Headers(entry.headers))
+}
+
 export async function fetchFromBitbucketAPI<T = any>(
 	path: string,
 	options: FetchOptions = {},
 	config: BitbucketConfig,
 ): Promise<BitbucketResponse<T>> {
-	const { method = 'GET', headers = {}, body, signal } = options
+	const {
+		method = 'GET',
+		headers = {},
+		body,
+		signal = config.signal,
+		retry = method !== 'POST',
+		cache: useCache = true,
+	} = options
 	
-	const url = `${config.baseURL.replace(/\/$/, '')}/${path.replace(/^\//, '')}`
+	// Bitbucket Cloud pages with absolute `next` URLs
+	const url = path.startsWith('http')
+		? path
+		: `${config.baseURL.replace(/\/$/, '')}/${path.replace(/^\//, '')}`
 	
 	const requestHeaders: Record<string, string> = {
-		'Authorization': `Bearer ${config.token}`,
+		...(config.auth && { Authorization: authorizationHeader(config.auth) }),
 		...headers,
 	}
 	
-	const requestInit: RequestInit = {
+	const requestInit: BunFetchRequestInit = {
 		method,
 		headers: requestHeaders,
 		signal,
+		...networkOptions(url, config.network),
 	}
 	
 	if (body) {
@@ -45,38 +137,52 @@ export async function fetchFromBitbucketAPI<T = any>(
 		}
 	}
 	
+	const cache = method === 'GET' && useCache ? config.cache : undefined
+	const key = cache ? cacheKey(url, requestHeaders) : undefined
+	const cached = cache && key ? await getCachedResponse(cache, key) : undefined
+	
+	// A fresh read still reuses responses pinned to a commit, which cannot change
+	if (cached && (cached.immutable || (!config.fresh && isFresh(cached)))) {
+		return fromCache<T>(cached)
+	}
+	
+	// Ask the server whether the stale copy is still current
+	if (cached?.etag) {
+		requestHeaders['If-None-Match'] = cached.etag
+	}
+	
 	try {
-		const response = await fetch(url, requestInit)
-		const contentType = response.headers.get('content-type')
-		const isJson = contentType?.includes('application/json')
-		
-		let text: string | undefined
-		let data: T | undefined
-		
-		if (response.ok) {
-			const rawText = await response.text()
-			text = rawText
-			
-			if (isJson && rawText) {
-				try {
-					data = JSON.parse(rawText) as T
-				} catch {
-					// If JSON parsing fails, leave data undefined
-				}
-			}
-		} else {
-			text = await response.text()
+		const response = await fetchWithRetry(
+			url,
+			requestInit,
+			config.rateLimiter,
+			config.throttle,
+			retry,
+		)
+	
+		if (response.status === 304 && cache && key && cached) {
+			return fromCache<T>(await renewCachedResponse(cache, key, url, cached))
 		}
-		
-		return {
-			ok: response.ok,
-			status: response.status,
-			statusText: response.statusText,
-			text,
-			data,
+	
+		const text = await response.text()
+	
+		if (
+			cache &&
+			key &&
+			response.status === 200 &&
+			!response.headers.get('cache-control')?.includes('no-store')
+		) {
+			await storeResponse(cache, key, url, {
+				status: response.status,
+				statusText: response.statusText,
+				text,
+				headers: [...response.headers],
+			})
 		}
+	
+		return parseResponse<T>(response.status, response.statusText, text, response.headers)
 	} catch (error) {
-		if (error instanceof Error && error.name === 'AbortError') {
+		if (signal?.aborted || (error instanceof Error && error.name === 'AbortError')) {
 			throw error
 		}
 		
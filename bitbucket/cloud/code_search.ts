@@ -0,0 +1,147 @@
+import picomatch from 'picomatch/posix'
+
+import { type BitbucketConfig, type BitbucketResponse, fetchFromBitbucketAPI } from '../api-client'
+import {
+	type CodeHit,
+	type CodeSearchArgs,
+	type CodeSearchResult,
+	globToModifiers,
+} from '../tools/code_search'
+import type { CloudPaginatedResponse } from './refs'
+
+interface CloudSearchSegment {
+	text: string
+	match?: boolean
+}
+
+interface CloudCodeSearchResult {
+	content_match_count: number
+	content_matches: Array<{
+		lines: Array<{
+			line: number
+			segments: CloudSearchSegment[]
+		}>
+	}>
+	path_matches: CloudSearchSegment[]
+	file: {
+		path: string
+		commit: {
+			hash: string
+			repository: {
+				name: string
+				full_name: string
+			}
+		}
+	}
+}
+
+/**
+ * Search code in one Bitbucket Cloud workspace. Cloud only offers code search
+ * per workspace, so `project` (the workspace slug) is required here.
+ */
+export async function searchCode(
+	args: CodeSearchArgs,
+	config: BitbucketConfig,
+	onProgress?: (message: string) => void,
+): Promise<CodeSearchResult> {
+	const { query, project, repository, fileGlob, language, limit = 25, offset = 0 } = args
+
+	if (!project) {
+		throw new Error(
+			'Bitbucket Cloud searches one workspace at a time: pass the workspace slug as project',
+		)
+	}
+
+	onProgress?.(`Searching for "${query}" in workspace ${project}...`)
+
+	// The workspace is part of the URL, so only the remaining scopes become modifiers
+	const modifiers: string[] = []
+
+	if (repository) {
+		modifiers.push(`repo:${repository}`)
+	}
+
+	if (fileGlob) {
+		modifiers.push(...globToModifiers(fileGlob))
+	}
+
+	if (language) {
+		modifiers.push(`lang:${language}`)
+	}
+
+	// Cloud pages by page number: start at the page holding the offset, skip
+	// to it, and follow `next` until the requested results are covered
+	const pageLength = Math.max(1, Math.min(limit, 100))
+	const page = Math.floor(offset / pageLength) + 1
+	const skip = offset - (page - 1) * pageLength
+	const searchQuery = encodeURIComponent([query, ...modifiers].join(' '))
+
+	const results: CloudCodeSearchResult[] = []
+	let totalCount: number | undefined
+	let nextPath: string | undefined =
+		`workspaces/${project}/search/code?search_query=${searchQuery}&page=${page}&pagelen=${pageLength}`
+
+	while (nextPath && results.length < skip + limit) {
+		const response: BitbucketResponse<CloudPaginatedResponse<CloudCodeSearchResult>> = await fetchFromBitbucketAPI(
+			nextPath,
+			{},
+			config,
+		)
+
+		if (!response.ok) {
+			throw new Error(
+				`Bitbucket code search failed: ${response.status} ${response.statusText}${response.text ? ` - ${response.text.substring(0, 100)}` : ''}`,
+			)
+		}
+
+		if (!response.data) {
+			throw new Error('No data returned from Bitbucket code search')
+		}
+
+		results.push(...response.data.values)
+		totalCount ??= response.data.size
+		nextPath = response.data.next
+	}
+
+	const window = results.slice(skip, skip + limit)
+
+	// Workspaces stand in for projects, so the workspace slug goes in project.key
+	let files: CodeHit[] = window.map((result) => {
+		const { repository } = result.file.commit
+		return {
+			repository: {
+				slug: repository.full_name.split('/')[1] ?? repository.name,
+				name: repository.name,
+				project: {
+					key: project,
+					name: project,
+				},
+			},
+			file: result.file.path,
+			hitContexts: result.content_matches.map((match) =>
+				match.lines.map((line) => ({
+					line: line.line,
+					text: line.segments.map((segment) => segment.text).join(''),
+				})),
+			),
+			pathMatches: result.path_matches,
+			hitCount: result.content_match_count,
+		}
+	})
+
+	// The path/ext modifiers are coarser than the glob, so refine the page
+	// client-side; offsets still count the results Cloud returned
+	if (fileGlob) {
+		const isMatch = picomatch(fileGlob)
+		files = files.filter((file) => isMatch(file.file))
+	}
+
+	const hasMore = results.length > skip + limit || Boolean(nextPath)
+
+	return {
+		files,
+		totalCount: totalCount ?? files.length,
+		hasMore,
+		nextOffset: hasMore ? offset + window.length : undefined,
+	}
+}
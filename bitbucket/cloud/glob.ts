@@ -0,0 +1,96 @@
+import picomatch from 'picomatch/posix'
+
+import { DEADLINE_WARNING, pastDeadline } from '../../shared/timeouts'
+import {
+	type BitbucketConfig,
+	type BitbucketResponse,
+	fetchFromBitbucketAPI,
+} from '../api-client'
+import type { BitbucketGlobArgs, BitbucketGlobResult } from '../tools/glob'
+import { type CloudPaginatedResponse, resolveRef } from './refs'
+
+interface CloudTreeEntry {
+	type: 'commit_file' | 'commit_directory'
+	path: string
+	size?: number
+}
+
+// Bitbucket Cloud rejects unbounded recursion, so cap the listing depth
+const MAX_DEPTH = 100
+
+export async function globFiles(
+	args: BitbucketGlobArgs,
+	config: BitbucketConfig,
+	onProgress?: (message: string) => void,
+): Promise<BitbucketGlobResult> {
+	const { project, repository, filePattern, limit = 100, offset = 0, ref } = args
+
+	onProgress?.(`Finding files matching "${filePattern}" in ${project}/${repository}...`)
+
+	const resolved = await resolveRef(project, repository, ref, config)
+
+	const isMatch = picomatch(filePattern)
+
+	// Only list below the literal prefix of the pattern; a pattern without
+	// wildcards names a single file, so list its directory
+	const { base, isGlob } = picomatch.scan(filePattern)
+	const prefix = isGlob ? base : base.split('/').slice(0, -1).join('/')
+
+	const query = encodeURIComponent('type="commit_file"')
+	let nextPath: string | undefined =
+		`repositories/${project}/${repository}/src/${resolved.commit}/${prefix ? `${prefix}/` : ''}?max_depth=${MAX_DEPTH}&pagelen=100&q=${query}`
+
+	// Collect one match past the requested page so we know whether more exist
+	const wanted = limit ? offset + limit + 1 : Number.POSITIVE_INFINITY
+	const matchedFiles: string[] = []
+	let listed = 0
+	let warning: string | undefined
+
+	while (nextPath && matchedFiles.length < wanted) {
+		if (listed > 0 && pastDeadline(config)) {
+			warning = DEADLINE_WARNING
+			break
+		}
+
+		const response: BitbucketResponse<CloudPaginatedResponse<CloudTreeEntry>> = await fetchFromBitbucketAPI(
+			nextPath,
+			{},
+			config,
+		)
+
+		if (response.status === 404 && listed === 0) {
+			// The prefix directory does not exist at this commit
+			break
+		}
+
+		if (!response.ok || !response.data) {
+			throw new Error(
+				`Failed to list files: ${response.status} ${response.statusText || 'Unknown error'}`,
+			)
+		}
+
+		for (const entry of response.data.values) {
+			if (entry.type === 'commit_file' && isMatch(entry.path)) {
+				matchedFiles.push(entry.path)
+			}
+		}
+
+		listed += response.data.values.length
+		onProgress?.(`Listed ${listed} files, ${matchedFiles.length} matching...`)
+
+		nextPath = response.data.next
+	}
+
+	// Apply pagination
+	const paginatedFiles = limit
+		? matchedFiles.slice(offset, offset + limit)
+		: matchedFiles.slice(offset)
+
+	return {
+		files: paginatedFiles.map((path) => `/${project}/${repository}/${path}`),
+		ref: resolved.ref,
+		commit: resolved.commit,
+		hasMore: warning !== undefined || (limit ? matchedFiles.length > offset + limit : false),
+		warning,
+	}
+}
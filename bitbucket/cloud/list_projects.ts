@@ -0,0 +1,125 @@
+import { DEADLINE_WARNING, pastDeadline } from '../../shared/timeouts'
+import {
+	type BitbucketConfig,
+	type BitbucketResponse,
+	fetchFromBitbucketAPI,
+} from '../api-client'
+import { mapWithConcurrency } from '../concurrency'
+import type { ListProjectsArgs, ListProjectsResult, ProjectResult } from '../tools/list_projects'
+import type { CloudPaginatedResponse } from './refs'
+
+interface CloudWorkspacePermission {
+	permission: 'owner' | 'collaborator' | 'member'
+	workspace: {
+		slug: string
+		name: string
+		is_private?: boolean
+	}
+}
+
+const REPOSITORY_COUNT_CONCURRENCY = 8
+
+// Workspace roles that satisfy each Server project permission
+const ALLOWED_ROLES: Record<NonNullable<ListProjectsArgs['permission']>, string[]> = {
+	PROJECT_READ: ['owner', 'collaborator', 'member'],
+	PROJECT_WRITE: ['owner', 'collaborator'],
+	PROJECT_ADMIN: ['owner'],
+}
+
+/**
+ * List the workspaces the token can see. Workspaces play the role of Server
+ * projects on Bitbucket Cloud: their slug is what the other tools take as
+ * `project`.
+ */
+export async function listProjects(
+	args: ListProjectsArgs,
+	config: BitbucketConfig,
+	onProgress?: (message: string) => void,
+): Promise<ListProjectsResult> {
+	const { pattern, name, permission, limit = 30, offset = 0 } = args
+
+	onProgress?.(`Fetching workspaces${pattern ? ` matching "${pattern}"` : ''}...`)
+
+	const memberships: CloudWorkspacePermission[] = []
+	let nextPath: string | undefined = 'user/permissions/workspaces?pagelen=100'
+	let warning: string | undefined
+
+	while (nextPath) {
+		if (memberships.length > 0 && pastDeadline(config)) {
+			warning = DEADLINE_WARNING
+			break
+		}
+
+		const response: BitbucketResponse<CloudPaginatedResponse<CloudWorkspacePermission>> = await fetchFromBitbucketAPI(
+			nextPath,
+			{},
+			config,
+		)
+
+		if (!response.ok || !response.data) {
+			throw new Error(
+				`Failed to fetch workspaces: ${response.status} ${response.statusText || 'Unknown error'}`,
+			)
+		}
+
+		memberships.push(...response.data.values)
+		nextPath = response.data.next
+	}
+
+	let workspaces = memberships
+		.filter((membership) => !permission || ALLOWED_ROLES[permission].includes(membership.permission))
+		.map((membership) => membership.workspace)
+
+	if (name) {
+		const lowerName = name.toLowerCase()
+		workspaces = workspaces.filter((workspace) => workspace.name.toLowerCase().includes(lowerName))
+	}
+
+	if (pattern) {
+		let matches: (text: string) => boolean
+		try {
+			const regex = new RegExp(pattern, 'i')
+			matches = (text) => regex.test(text)
+		} catch {
+			// If regex is invalid, fall back to case-insensitive substring match
+			const lowerPattern = pattern.toLowerCase()
+			matches = (text) => text.toLowerCase().includes(lowerPattern)
+		}
+		workspaces = workspaces.filter(
+			(workspace) => matches(workspace.name) || matches(workspace.slug),
+		)
+	}
+
+	const page = workspaces.slice(offset, offset + limit)
+
+	onProgress?.(`Counting repositories in ${page.length} workspaces...`)
+
+	const repositoryCounts = await mapWithConcurrency(
+		page,
+		REPOSITORY_COUNT_CONCURRENCY,
+		async (workspace) => {
+			const response = await fetchFromBitbucketAPI<CloudPaginatedResponse<unknown>>(
+				`repositories/${workspace.slug}?pagelen=1&fields=size`,
+				{},
+				config,
+			)
+			return response.data?.size ?? 0
+		},
+	)
+
+	const projects: ProjectResult[] = page.map((workspace, index) => ({
+		key: workspace.slug,
+		name: workspace.name,
+		description: null,
+		isPublic: workspace.is_private === false,
+		type: 'WORKSPACE',
+		repositoryCount: repositoryCounts[index] ?? 0,
+	}))
+
+	return {
+		projects,
+		totalCount: workspaces.length,
+		hasMore: warning !== undefined || offset + limit < workspaces.length,
+		warning,
+	}
+}
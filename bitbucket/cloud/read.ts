@@ -0,0 +1,37 @@
+import { type BitbucketConfig, fetchFromBitbucketAPI } from '../api-client'
+import { type BitbucketReadArgs, type BitbucketReadResult, numberLines, toRelativePath } from '../tools/read'
+import { resolveRef } from './refs'
+
+export async function readFile(
+	args: BitbucketReadArgs,
+	config: BitbucketConfig,
+	onProgress?: (message: string) => void,
+): Promise<BitbucketReadResult> {
+	const { project, repository, path, read_range, ref } = args
+
+	onProgress?.(`Reading file "${path}" from ${project}/${repository}...`)
+
+	const relativePath = toRelativePath(path, project, repository)
+
+	// On Cloud the project is the workspace, and files are served from the src endpoint
+	const resolved = await resolveRef(project, repository, ref, config)
+
+	const response = await fetchFromBitbucketAPI<string>(
+		`repositories/${project}/${repository}/src/${resolved.commit}/${relativePath}`,
+		{},
+		config,
+	)
+
+	if (!response.ok) {
+		throw new Error(
+			`Failed to read file: ${response.status} ${response.statusText || 'Unknown error'}`,
+		)
+	}
+
+	return {
+		absolutePath: `/${project}/${repository}/${relativePath}`,
+		content: numberLines(response.text || '', read_range),
+		ref: resolved.ref,
+		commit: resolved.commit,
+	}
+}
@@ -0,0 +1,65 @@
+import { type BitbucketConfig, fetchFromBitbucketAPI } from '../api-client'
+import type { ResolvedRef } from '../refs'
+
+export interface CloudPaginatedResponse<T> {
+	values: T[]
+	size?: number
+	page?: number
+	pagelen: number
+	next?: string
+}
+
+interface CloudRepository {
+	mainbranch?: {
+		name: string
+	}
+}
+
+interface CloudCommit {
+	hash: string
+}
+
+/**
+ * Resolve a branch name, tag or commit SHA to the commit it points at on
+ * Bitbucket Cloud. Without a ref the repository's main branch is used.
+ */
+export async function resolveRef(
+	workspace: string,
+	repository: string,
+	ref: string | undefined,
+	config: BitbucketConfig,
+): Promise<ResolvedRef> {
+	const repoPath = `repositories/${workspace}/${repository}`
+
+	let resolvedRef = ref
+
+	if (!resolvedRef) {
+		const response = await fetchFromBitbucketAPI<CloudRepository>(repoPath, {}, config)
+
+		if (!response.ok || !response.data?.mainbranch) {
+			throw new Error(
+				`Failed to resolve main branch of ${workspace}/${repository}: ${response.status} ${response.statusText || 'Unknown error'}`,
+			)
+		}
+
+		resolvedRef = response.data.mainbranch.name
+	}
+
+	// The commit endpoint accepts branch names, tags and commit SHAs
+	const response = await fetchFromBitbucketAPI<CloudCommit>(
+		`${repoPath}/commit/${encodeURIComponent(resolvedRef)}`,
+		{},
+		config,
+	)
+
+	if (!response.ok || !response.data) {
+		throw new Error(
+			`Failed to resolve ref "${resolvedRef}" in ${workspace}/${repository}: ${response.status} ${response.statusText || 'Unknown error'}`,
+		)
+	}
+
+	return {
+		ref: resolvedRef,
+		commit: response.data.hash,
+	}
+}
@@ -0,0 +1,71 @@
+import { type BitbucketConfig, fetchFromBitbucketAPI } from '../api-client'
+import type {
+	Repository,
+	SearchRepositoriesArgs,
+	SearchRepositoriesResult,
+} from '../tools/search_repositories'
+import type { CloudPaginatedResponse } from './refs'
+
+interface CloudRepository {
+	name: string
+	slug: string
+	full_name: string
+	description: string
+	is_private: boolean
+	scm: string
+	fork_policy: 'allow_forks' | 'no_public_forks' | 'no_forks'
+	workspace: {
+		slug: string
+		name: string
+	}
+}
+
+export async function searchRepositories(
+	args: SearchRepositoriesArgs,
+	config: BitbucketConfig,
+	onProgress?: (message: string) => void,
+): Promise<SearchRepositoriesResult> {
+	const { query, limit = 30 } = args
+
+	onProgress?.(`Searching for repositories matching "${query}"...`)
+
+	// Match the query against names and descriptions of repositories the token is a member of
+	const term = JSON.stringify(query)
+	const filter = encodeURIComponent(`name ~ ${term} OR description ~ ${term}`)
+
+	const response = await fetchFromBitbucketAPI<CloudPaginatedResponse<CloudRepository>>(
+		`repositories?role=member&q=${filter}&sort=-updated_on&pagelen=${Math.min(limit, 100)}`,
+		{},
+		config,
+	)
+
+	if (!response.ok || !response.data) {
+		throw new Error(
+			`Bitbucket repository search failed: ${response.status} ${response.statusText}${response.text ? ` - ${response.text.substring(0, 100)}` : ''}`,
+		)
+	}
+
+	// Workspaces stand in for projects, so the workspace slug goes in project.key
+	const repositories: Repository[] = response.data.values.map((repository) => ({
+		name: repository.name,
+		slug: repository.slug,
+		description: repository.description || undefined,
+		public: !repository.is_private,
+		archived: false,
+		project: {
+			key: repository.workspace.slug,
+			name: repository.workspace.name,
+			public: !repository.is_private,
+			type: 'WORKSPACE',
+		},
+		scmId: repository.scm,
+		state: 'AVAILABLE',
+		statusMessage: 'Available',
+		forkable: repository.fork_policy !== 'no_forks',
+	}))
+
+	return {
+		repositories,
+		totalCount: response.data.size ?? repositories.length,
+	}
+}
@@ -0,0 +1,24 @@
+/**
+ * Map over items with at most `concurrency` calls to `fn` in flight.
+ * Results keep the order of the input.
+ */
+export async function mapWithConcurrency<T, R>(
+	items: readonly T[],
+	concurrency: number,
+	fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+	const results = new Array<R>(items.length)
+	let next = 0
+
+	const worker = async (): Promise<void> => {
+		while (next < items.length) {
+			const index = next++
+			results[index] = await fn(items[index] as T, index)
+		}
+	}
+
+	const workers = Array.from({ length: Math.min(concurrency, items.length) }, () => worker())
+	await Promise.all(workers)
+
+	return results
+}
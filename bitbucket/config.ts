@@ -0,0 +1,146 @@
+import { type EndpointTTL, loadResponseCacheFromEnv } from '../shared/cache'
+import { loadNetworkConfigFromEnv } from '../shared/network'
+import { createThrottleStats, loadRateLimiterFromEnv } from '../shared/rate-limit'
+import type { ToolTimeouts } from '../shared/timeouts'
+import type { BitbucketAuth, BitbucketConfig } from './api-client'
+
+// Pull requests and refs move often; project and repository lists rarely do
+export const ENDPOINT_TTLS: EndpointTTL[] = [
+	{ kind: 'pull-requests', pattern: /\/pull-?requests/, ttlMs: 30_000 },
+	{ kind: 'refs', pattern: /\/(branches|tags|commits?)(\/|\?|$)/, ttlMs: 30_000 },
+	{ kind: 'search', pattern: /\/search\//, ttlMs: 60_000 },
+	{ kind: 'files', pattern: /\/(raw|browse|files|src)(\/|\?|$)/, ttlMs: 60_000 },
+	{ kind: 'projects', pattern: /\/(projects|repos|repositories|workspaces)(\?|$)/, ttlMs: 300_000 },
+]
+
+// Tools that walk many pages get longer than single lookups
+export const TOOL_TIMEOUTS_MS: ToolTimeouts = {
+	glob_files: 120_000,
+	search_code: 60_000,
+	list_projects: 60_000,
+	file_history: 90_000,
+	get_pull_request: 60_000,
+	blame_file: 60_000,
+}
+
+export const BITBUCKET_CLOUD_API_URL = 'https://api.bitbucket.org/2.0'
+
+export function isDeployment(value: string): value is 'server' | 'cloud' {
+	return value === 'server' || value === 'cloud'
+}
+
+export function isBitbucketCloudURL(url: string): boolean {
+	return /^https?:\/\/(api\.)?bitbucket\.org(\/|$)/.test(url)
+}
+
+/**
+ * Read the credentials. BITBUCKET_AUTH_TYPE selects "bearer" (an HTTP access
+ * token in BITBUCKET_ACCESS_TOKEN) or "basic" (BITBUCKET_USERNAME with
+ * BITBUCKET_APP_PASSWORD). Basic is also picked when only a username and app
+ * password are set. Unless `required`, none of them need to be set.
+ */
+function loadAuthFromEnv(required: boolean): BitbucketAuth | undefined {
+	const token = process.env.BITBUCKET_ACCESS_TOKEN
+	const username = process.env.BITBUCKET_USERNAME
+	const password = process.env.BITBUCKET_APP_PASSWORD
+
+	if (!required && !token && !username && !password) {
+		return undefined
+	}
+	const authType =
+		process.env.BITBUCKET_AUTH_TYPE?.toLowerCase() || (!token && username ? 'basic' : 'bearer')
+
+	if (authType === 'basic') {
+		if (!username || !password) {
+			console.error(
+				'Error: BITBUCKET_USERNAME and BITBUCKET_APP_PASSWORD must be set for basic authentication',
+			)
+			process.exit(1)
+		}
+
+		return { type: 'basic', username, password }
+	}
+
+	if (authType !== 'bearer') {
+		console.error(
+			`Error: BITBUCKET_AUTH_TYPE must be "bearer" or "basic", got "${process.env.BITBUCKET_AUTH_TYPE}"`,
+		)
+		process.exit(1)
+	}
+
+	if (!token) {
+		console.error(
+			'Error: BITBUCKET_ACCESS_TOKEN must be set (or BITBUCKET_USERNAME and BITBUCKET_APP_PASSWORD for basic authentication)',
+		)
+		process.exit(1)
+	}
+
+	return { type: 'bearer', token }
+}
+
+/**
+ * Build the Bitbucket configuration from environment variables. Prints an
+ * error and exits when required settings are missing, so it is only meant
+ * to be called from entry points. Pass false for `requireAuth` when every
+ * client brings its own credentials.
+ *
+ * BITBUCKET_DEPLOYMENT selects "server" (Server/Data Center, the default) or
+ * "cloud". Cloud is also picked automatically for bitbucket.org URLs.
+ */
+export function loadConfigFromEnv(requireAuth = true): BitbucketConfig {
+	const instanceURL = process.env.BITBUCKET_INSTANCE_URL
+	const deploymentSetting = process.env.BITBUCKET_DEPLOYMENT?.toLowerCase() || undefined
+
+	if (deploymentSetting !== undefined && !isDeployment(deploymentSetting)) {
+		console.error(
+			`Error: BITBUCKET_DEPLOYMENT must be "server" or "cloud", got "${process.env.BITBUCKET_DEPLOYMENT}"`,
+		)
+		process.exit(1)
+	}
+
+	const isCloudURL = instanceURL ? isBitbucketCloudURL(instanceURL) : false
+	const deployment: BitbucketConfig['deployment'] =
+		deploymentSetting ?? (isCloudURL ? 'cloud' : 'server')
+
+	// The Cloud REST API lives on its own host; any other URL is taken to be a
+	// gateway in front of it
+	const baseURL =
+		deployment === 'cloud' && (!instanceURL || isCloudURL) ? BITBUCKET_CLOUD_API_URL : instanceURL
+
+	if (!baseURL) {
+		console.error('Error: BITBUCKET_INSTANCE_URL must be set')
+		process.exit(1)
+	}
+
+	return {
+		baseURL,
+		auth: loadAuthFromEnv(requireAuth),
+		deployment,
+		network: loadNetworkConfigFromEnv('BITBUCKET'),
+		rateLimiter: loadRateLimiterFromEnv('BITBUCKET'),
+		throttle: createThrottleStats(),
+		cache: loadResponseCacheFromEnv('BITBUCKET', ENDPOINT_TTLS),
+	}
+}
+
+/**
+ * Tools that have a Bitbucket Cloud implementation. The rest use endpoints
+ * that only exist on Bitbucket Server/Data Center.
+ */
+export const CLOUD_TOOLS: ReadonlySet<string> = new Set([
+	'read_file',
+	'glob_files',
+	'list_projects',
+	'search_repositories',
+	'search_code',
+])
+
+/**
+ * Fail early, with a clear message, when a Server-only tool is called with a
+ * Bitbucket Cloud configuration. Cloud would answer its endpoints with 404s.
+ */
+export function requireServer(config: BitbucketConfig, toolName: string): void {
+	if (config.deployment === 'cloud') {
+		throw new Error(`${toolName} is not available on Bitbucket Cloud`)
+	}
+}
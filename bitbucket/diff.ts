@@ -0,0 +1,191 @@
+export interface BitbucketDiffLine {
+	source: number
+	destination: number
+	line: string
+}
+
+export interface BitbucketDiffSegment {
+	type: 'ADDED' | 'REMOVED' | 'CONTEXT'
+	lines: BitbucketDiffLine[]
+	truncated?: boolean
+}
+
+export interface BitbucketDiffHunk {
+	sourceLine: number
+	sourceSpan: number
+	destinationLine: number
+	destinationSpan: number
+	segments: BitbucketDiffSegment[]
+	truncated?: boolean
+}
+
+export interface BitbucketDiff {
+	source: { toString: string } | null
+	destination: { toString: string } | null
+	hunks?: BitbucketDiffHunk[]
+	binary?: boolean
+	truncated?: boolean
+}
+
+export interface BitbucketDiffResponse {
+	diffs: BitbucketDiff[]
+	truncated?: boolean
+}
+
+export type FileChange = {
+	path: string
+	oldPath?: string
+	status: 'added' | 'deleted' | 'modified' | 'renamed'
+	additions: number
+	deletions: number
+	binary?: boolean
+}
+
+export type FileDiff = {
+	path: string
+	diff: string
+	truncated?: boolean
+}
+
+export type DiffPage = {
+	files: FileChange[]
+	diffs: FileDiff[]
+	hasMore: boolean
+	nextDiffOffset?: number
+	truncated?: boolean
+}
+
+export function summarizeDiff(diff: BitbucketDiff): FileChange {
+	const source = diff.source?.toString
+	const destination = diff.destination?.toString
+
+	let additions = 0
+	let deletions = 0
+
+	for (const hunk of diff.hunks ?? []) {
+		for (const segment of hunk.segments) {
+			if (segment.type === 'ADDED') {
+				additions += segment.lines.length
+			} else if (segment.type === 'REMOVED') {
+				deletions += segment.lines.length
+			}
+		}
+	}
+
+	let status: FileChange['status'] = 'modified'
+	if (!source) {
+		status = 'added'
+	} else if (!destination) {
+		status = 'deleted'
+	} else if (source !== destination) {
+		status = 'renamed'
+	}
+
+	return {
+		path: destination ?? source ?? '',
+		oldPath: status === 'renamed' ? source : undefined,
+		status,
+		additions,
+		deletions,
+		binary: diff.binary || undefined,
+	}
+}
+
+/**
+ * Render one file of Bitbucket's structured diff as a unified diff.
+ */
+function toUnifiedDiff(diff: BitbucketDiff): string {
+	const source = diff.source?.toString
+	const destination = diff.destination?.toString
+
+	const lines = [
+		`--- ${source ? `a/${source}` : '/dev/null'}`,
+		`+++ ${destination ? `b/${destination}` : '/dev/null'}`,
+	]
+
+	if (diff.binary) {
+		lines.push('Binary files differ')
+	}
+
+	for (const hunk of diff.hunks ?? []) {
+		lines.push(
+			`@@ -${hunk.sourceLine},${hunk.sourceSpan} +${hunk.destinationLine},${hunk.destinationSpan} @@`,
+		)
+
+		for (const segment of hunk.segments) {
+			const marker = segment.type === 'ADDED' ? '+' : segment.type === 'REMOVED' ? '-' : ' '
+			for (const line of segment.lines) {
+				lines.push(`${marker}${line.line}`)
+			}
+		}
+	}
+
+	return lines.join('\n')
+}
+
+/**
+ * Render `diff` as a unified diff and add it to `diffs`, cutting it off once
+ * the page holds `maxBytes` of diff text. Returns the page's new size.
+ */
+export function appendFileDiff(
+	diffs: FileDiff[],
+	path: string,
+	diff: BitbucketDiff,
+	bytes: number,
+	maxBytes: number,
+): number {
+	const text = toUnifiedDiff(diff)
+	const remaining = maxBytes - bytes
+
+	if (text.length > remaining) {
+		diffs.push({
+			path,
+			diff: `${text.slice(0, remaining)}\n... (truncated)`,
+			truncated: true,
+		})
+		return maxBytes
+	}
+
+	diffs.push({
+		path,
+		diff: text,
+		truncated: diff.truncated || undefined,
+	})
+	return bytes + text.length
+}
+
+/**
+ * Summarize every changed file and render unified diffs for a page of them.
+ * Rendering stops early once `maxBytes` of diff text has been produced; the
+ * file that crosses the limit is cut off and marked as truncated.
+ */
+export function pageDiffs(
+	response: BitbucketDiffResponse,
+	offset: number,
+	limit: number,
+	maxBytes: number,
+): DiffPage {
+	const files = response.diffs.map(summarizeDiff)
+	const diffs: FileDiff[] = []
+	let bytes = 0
+	let index = offset
+
+	for (; index < Math.min(response.diffs.length, offset + limit); index++) {
+		if (bytes >= maxBytes) {
+			break
+		}
+
+		const fileChange = files[index] as FileChange
+		bytes = appendFileDiff(diffs, fileChange.path, response.diffs[index] as BitbucketDiff, bytes, maxBytes)
+	}
+
+	const hasMore = index < response.diffs.length
+
+	return {
+		files,
+		diffs,
+		hasMore,
+		nextDiffOffset: hasMore ? index : undefined,
+		truncated: response.truncated || undefined,
+	}
+}
@@ -1,27 +1,71 @@
 #!/usr/bin/env bun
+import type { IncomingMessage } from 'node:http'
+
 import { Server } from '@modelcontextprotocol/sdk/server/index.js'
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import {
 	CallToolRequestSchema,
 	ListToolsRequestSchema,
+	type ServerNotification,
 } from '@modelcontextprotocol/sdk/types.js'
 
+import { loadHTTPOptionsFromEnv, serveHTTP } from '../shared/http'
+import { verifyTLS } from '../shared/network'
+import { createThrottleStats, withThrottleReport } from '../shared/rate-limit'
+import { startToolTimer } from '../shared/timeouts'
 import type { BitbucketConfig } from './api-client'
+import { CLOUD_TOOLS, loadConfigFromEnv, TOOL_TIMEOUTS_MS } from './config'
+import {
+	blameFile,
+	type BitbucketBlameArgs,
+	toolDefinition as blameFileTool,
+} from './tools/blame'
 import {
 	searchCode,
 	type CodeSearchArgs,
 	toolDefinition as codeSearchTool,
 } from './tools/code_search'
+import {
+	compareRefs,
+	type CompareRefsArgs,
+	toolDefinition as compareRefsTool,
+} from './tools/compare_refs'
+import {
+	fileHistory,
+	type FileHistoryArgs,
+	toolDefinition as fileHistoryTool,
+} from './tools/file_history'
+import {
+	getPullRequest,
+	type GetPullRequestArgs,
+	toolDefinition as getPullRequestTool,
+} from './tools/get_pull_request'
 import {
 	globFiles,
 	type BitbucketGlobArgs,
 	toolDefinition as globFilesTool,
 } from './tools/glob'
+import {
+	listBranches,
+	type ListBranchesArgs,
+	toolDefinition as listBranchesTool,
+} from './tools/list_branches'
+import {
+	listDirectory,
+	type BitbucketListDirectoryArgs,
+	toolDefinition as listDirectoryTool,
+} from './tools/list_directory'
 import {
 	listProjects,
 	type ListProjectsArgs,
 	toolDefinition as listProjectsTool,
 } from './tools/list_projects'
+import {
+	listPullRequests,
+	type ListPullRequestsArgs,
+	toolDefinition as listPullRequestsTool,
+} from './tools/list_pull_requests'
+import { listTags, type ListTagsArgs, toolDefinition as listTagsTool } from './tools/list_tags'
 import {
 	readFile,
 	type BitbucketReadArgs,
@@ -33,130 +77,351 @@ import {
 	toolDefinition as searchRepositoriesTool,
 } from './tools/search_repositories'
 
-const BITBUCKET_INSTANCE_URL = process.env.BITBUCKET_INSTANCE_URL
-const BITBUCKET_ACCESS_TOKEN = process.env.BITBUCKET_ACCESS_TOKEN
+const httpOptions = loadHTTPOptionsFromEnv('BITBUCKET')
+// Without BITBUCKET_MCP_CREDENTIALS=server, HTTP clients must send their own
+// credentials, so the server needs none
+const config = loadConfigFromEnv(httpOptions?.credentials !== 'client')
 
-if (!BITBUCKET_INSTANCE_URL || !BITBUCKET_ACCESS_TOKEN) {
-	console.error('Error: BITBUCKET_INSTANCE_URL and BITBUCKET_ACCESS_TOKEN must be set')
-	process.exit(1)
+const CLIENT_TOKEN_HEADER = 'x-bitbucket-token'
+
+function isToolAvailable(config: BitbucketConfig, name: string): boolean {
+	return config.deployment !== 'cloud' || CLOUD_TOOLS.has(name)
 }
 
-const config: BitbucketConfig = {
-	baseURL: BITBUCKET_INSTANCE_URL,
-	token: BITBUCKET_ACCESS_TOKEN,
+/**
+ * Add the optional `fresh` argument that makes a call revalidate cached
+ * responses instead of reusing them.
+ */
+function withFreshArgument(tool: {
+	name: string
+	description: string
+	inputSchema: { type: 'object'; properties: Record<string, unknown>; required?: readonly string[] }
+}) {
+	// Add the argument to the end of the PARAMETERS list
+	const parameter = '- fresh: Ask the server again instead of reusing recently cached responses (optional; default: false)'
+	const [summary = '', parameters = '', ...rest] = tool.description.split('\n\n')
+
+	return {
+		name: tool.name,
+		description: [summary, `${parameters}\n${parameter}`, ...rest].join('\n\n'),
+		inputSchema: {
+			...tool.inputSchema,
+			properties: {
+				...tool.inputSchema.properties,
+				fresh: {
+					type: 'boolean',
+					description: 'Ask the server again instead of reusing recently cached responses (default: false)',
+				},
+			},
+		},
+	}
 }
 
-const server = new Server(
-	{
-		name: 'bitbucket-server',
-		version: '1.0.0',
-	},
-	{
-		capabilities: {
-			tools: {},
+/**
+ * Forward a tool's progress messages as MCP progress notifications, when the
+ * client asked for them by sending a progress token.
+ */
+function progressReporter(
+	progressToken: string | number | undefined,
+	sendNotification: (notification: ServerNotification) => Promise<void>,
+): ((message: string) => void) | undefined {
+	if (progressToken === undefined) {
+		return undefined
+	}
+
+	let progress = 0
+	return (message) => {
+		progress++
+		sendNotification({
+			method: 'notifications/progress',
+			params: { progressToken, progress, message },
+		}).catch(() => {
+			// Progress is advisory; a closed transport must not fail the tool
+		})
+	}
+}
+
+function createMCPServer(sessionConfig: BitbucketConfig): Server {
+	const server = new Server(
+		{
+			name: 'bitbucket-server',
+			version: '1.0.0',
+		},
+		{
+			capabilities: {
+				tools: {},
+			},
 		},
-	},
-)
+	)
 
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-	return {
-		tools: [
+	server.setRequestHandler(ListToolsRequestSchema, async () => {
+		const tools = [
 			readFileTool,
 			codeSearchTool,
 			listProjectsTool,
 			globFilesTool,
+			listDirectoryTool,
 			searchRepositoriesTool,
-		],
-	}
-})
+			listPullRequestsTool,
+			getPullRequestTool,
+			fileHistoryTool,
+			blameFileTool,
+			compareRefsTool,
+			listBranchesTool,
+			listTagsTool,
+		]
+
+		return {
+			tools: tools.filter((tool) => isToolAvailable(sessionConfig, tool.name)).map(withFreshArgument),
+		}
+	})
+
+	server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+		const timer = startToolTimer(request.params.name, extra.signal, TOOL_TIMEOUTS_MS)
+
+		// Throttling is reported per call, while the rate limiter itself is shared
+		const callConfig = {
+			...sessionConfig,
+			throttle: createThrottleStats(),
+			signal: timer.signal,
+			deadline: timer.deadline,
+			fresh: request.params.arguments?.fresh === true,
+		}
+		const onProgress = progressReporter(request.params._meta?.progressToken, extra.sendNotification)
 
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-	try {
-		switch (request.params.name) {
-			case 'read_file': {
-				const args = request.params.arguments as BitbucketReadArgs
-				const result = await readFile(args, config)
-				return {
-					content: [
-						{
-							type: 'text',
-							text: JSON.stringify(result, null, 2),
-						},
-					],
+		try {
+			switch (request.params.name) {
+				case 'read_file': {
+					const args = request.params.arguments as BitbucketReadArgs
+					const result = await readFile(args, callConfig, onProgress)
+					return {
+						content: [
+							{
+								type: 'text',
+								text: JSON.stringify(withThrottleReport(result, callConfig.throttle), null, 2),
+							},
+						],
+					}
 				}
-			}
 
-			case 'search_code': {
-				const args = request.params.arguments as CodeSearchArgs
-				const result = await searchCode(args, config)
-				return {
-					content: [
-						{
-							type: 'text',
-							text: JSON.stringify(result, null, 2),
-						},
-					],
+				case 'search_code': {
+					const args = request.params.arguments as CodeSearchArgs
+					const result = await searchCode(args, callConfig, onProgress)
+					return {
+						content: [
+							{
+								type: 'text',
+								text: JSON.stringify(withThrottleReport(result, callConfig.throttle), null, 2),
+							},
+						],
+					}
 				}
-			}
 
-			case 'list_projects': {
-				const args = request.params.arguments as ListProjectsArgs
-				const result = await listProjects(args, config)
-				return {
-					content: [
-						{
-							type: 'text',
-							text: JSON.stringify(result, null, 2),
-						},
-					],
+				case 'list_projects': {
+					const args = request.params.arguments as ListProjectsArgs
+					const result = await listProjects(args, callConfig, onProgress)
+					return {
+						content: [
+							{
+								type: 'text',
+								text: JSON.stringify(withThrottleReport(result, callConfig.throttle), null, 2),
+							},
+						],
+					}
 				}
-			}
 
-			case 'glob_files': {
-				const args = request.params.arguments as BitbucketGlobArgs
-				const result = await globFiles(args, config)
-				return {
-					content: [
-						{
-							type: 'text',
-							text: JSON.stringify(result, null, 2),
-						},
-					],
+				case 'glob_files': {
+					const args = request.params.arguments as BitbucketGlobArgs
+					const result = await globFiles(args, callConfig, onProgress)
+					return {
+						content: [
+							{
+								type: 'text',
+								text: JSON.stringify(withThrottleReport(result, callConfig.throttle), null, 2),
+							},
+						],
+					}
+				}
+
+				case 'list_directory': {
+					const args = request.params.arguments as BitbucketListDirectoryArgs
+					const result = await listDirectory(args, callConfig, onProgress)
+					return {
+						content: [
+							{
+								type: 'text',
+								text: JSON.stringify(withThrottleReport(result, callConfig.throttle), null, 2),
+							},
+						],
+					}
+				}
+
+				case 'search_repositories': {
+					const args = request.params.arguments as SearchRepositoriesArgs
+					const result = await searchRepositories(args, callConfig, onProgress)
+					return {
+						content: [
+							{
+								type: 'text',
+								text: JSON.stringify(withThrottleReport(result, callConfig.throttle), null, 2),
+							},
+						],
+					}
+				}
+
+				case 'list_pull_requests': {
+					const args = request.params.arguments as ListPullRequestsArgs
+					const result = await listPullRequests(args, callConfig, onProgress)
+					return {
+						content: [
+							{
+								type: 'text',
+								text: JSON.stringify(withThrottleReport(result, callConfig.throttle), null, 2),
+							},
+						],
+					}
+				}
+
+				case 'get_pull_request': {
+					const args = request.params.arguments as GetPullRequestArgs
+					const result = await getPullRequest(args, callConfig, onProgress)
+					return {
+						content: [
+							{
+								type: 'text',
+								text: JSON.stringify(withThrottleReport(result, callConfig.throttle), null, 2),
+							},
+						],
+					}
+				}
+
+				case 'file_history': {
+					const args = request.params.arguments as FileHistoryArgs
+					const result = await fileHistory(args, callConfig, onProgress)
+					return {
+						content: [
+							{
+								type: 'text',
+								text: JSON.stringify(withThrottleReport(result, callConfig.throttle), null, 2),
+							},
+						],
+					}
+				}
+
+				case 'blame_file': {
+					const args = request.params.arguments as BitbucketBlameArgs
+					const result = await blameFile(args, callConfig, onProgress)
+					return {
+						content: [
+							{
+								type: 'text',
+								text: JSON.stringify(withThrottleReport(result, callConfig.throttle), null, 2),
+							},
+						],
+					}
+				}
+
+				case 'compare_refs': {
+					const args = request.params.arguments as CompareRefsArgs
+					const result = await compareRefs(args, callConfig, onProgress)
+					return {
+						content: [
+							{
+								type: 'text',
+								text: JSON.stringify(withThrottleReport(result, callConfig.throttle), null, 2),
+							},
+						],
+					}
+				}
+
+				case 'list_branches': {
+					const args = request.params.arguments as ListBranchesArgs
+					const result = await listBranches(args, callConfig, onProgress)
+					return {
+						content: [
+							{
+								type: 'text',
+								text: JSON.stringify(withThrottleReport(result, callConfig.throttle), null, 2),
+							},
+						],
+					}
 				}
-			}
 
-			case 'search_repositories': {
-				const args = request.params.arguments as SearchRepositoriesArgs
-				const result = await searchRepositories(args, config)
-				return {
-					content: [
-						{
-							type: 'text',
-							text: JSON.stringify(result, null, 2),
-						},
-					],
+				case 'list_tags': {
+					const args = request.params.arguments as ListTagsArgs
+					const result = await listTags(args, callConfig, onProgress)
+					return {
+						content: [
+							{
+								type: 'text',
+								text: JSON.stringify(withThrottleReport(result, callConfig.throttle), null, 2),
+							},
+						],
+					}
 				}
+
+				default:
+					throw new Error(`Unknown tool: ${request.params.name}`)
 			}
+		} catch (error) {
+			const message =
+				timer.signal.aborted && !extra.signal.aborted
+					? `${request.params.name} timed out after ${timer.abortAfterMs / 1000} seconds`
+					: error instanceof Error
+						? error.message
+						: String(error)
 
-			default:
-				throw new Error(`Unknown tool: ${request.params.name}`)
-		}
-	} catch (error) {
-		return {
-			content: [
-				{
-					type: 'text',
-					text: `Error: ${error instanceof Error ? error.message : String(error)}`,
-				},
-			],
-			isError: true,
+			return {
+				content: [
+					{
+						type: 'text',
+						text: `Error: ${message}`,
+					},
+				],
+				isError: true,
+			}
 		}
+	})
+
+	return server
+}
+
+/**
+ * Clients of a shared HTTP server can send their own Bitbucket credentials in
+ * X-Bitbucket-Token: an access token, or "username:app-password" for Basic
+ * auth. Sessions without one use the server's credentials; serveHTTP only
+ * opens them when BITBUCKET_MCP_CREDENTIALS is "server".
+ */
+function configForRequest(request: IncomingMessage): BitbucketConfig {
+	const token = request.headers[CLIENT_TOKEN_HEADER]
+	if (typeof token !== 'string' || !token) {
+		return config
 	}
-})
+
+	const separator = token.indexOf(':')
+	return {
+		...config,
+		auth:
+			separator > 0
+				? { type: 'basic', username: token.slice(0, separator), password: token.slice(separator + 1) }
+				: { type: 'bearer', token },
+	}
+}
 
 async function main() {
+	await verifyTLS(config.baseURL, config.network)
+
+	if (httpOptions) {
+		await serveHTTP(
+			httpOptions,
+			(request) => createMCPServer(configForRequest(request)),
+			CLIENT_TOKEN_HEADER,
+		)
+		return
+	}
+
 	const transport = new StdioServerTransport()
-	await server.connect(transport)
+	await createMCPServer(config).connect(transport)
 	console.error('Bitbucket MCP Server running on stdio')
 }
 
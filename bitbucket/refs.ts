@@ -0,0 +1,108 @@
+import { type BitbucketConfig, fetchFromBitbucketAPI } from './api-client'
+import { mapWithConcurrency } from './concurrency'
+
+const COMMIT_DATE_CONCURRENCY = 8
+
+export type ResolvedRef = {
+	ref: string
+	commit: string
+}
+
+interface BitbucketBranch {
+	id: string
+	displayId: string
+	latestCommit: string
+}
+
+interface BitbucketCommit {
+	id: string
+	displayId: string
+}
+
+interface BitbucketPaginatedResponse<T> {
+	values: T[]
+	size: number
+	isLastPage: boolean
+}
+
+/**
+ * Resolve a branch name, tag or commit SHA to the commit it points at.
+ * Without a ref the repository's default branch is used.
+ */
+export async function resolveRef(
+	project: string,
+	repository: string,
+	ref: string | undefined,
+	config: BitbucketConfig,
+): Promise<ResolvedRef> {
+	const repoPath = `rest/api/1.0/projects/${project}/repos/${repository}`
+
+	if (!ref) {
+		const response = await fetchFromBitbucketAPI<BitbucketBranch>(
+			`${repoPath}/branches/default`,
+			{},
+			config,
+		)
+
+		if (!response.ok || !response.data) {
+			throw new Error(
+				`Failed to resolve default branch of ${project}/${repository}: ${response.status} ${response.statusText || 'Unknown error'}`,
+			)
+		}
+
+		return {
+			ref: response.data.displayId,
+			commit: response.data.latestCommit,
+		}
+	}
+
+	// `until` accepts branch names, tags, fully qualified refs and commit SHAs
+	const response = await fetchFromBitbucketAPI<BitbucketPaginatedResponse<BitbucketCommit>>(
+		`${repoPath}/commits?until=${encodeURIComponent(ref)}&limit=1`,
+		{},
+		config,
+	)
+
+	const commit = response.data?.values[0]
+
+	if (!response.ok || !commit) {
+		throw new Error(
+			`Failed to resolve ref "${ref}" in ${project}/${repository}: ${response.status} ${response.statusText || 'Unknown error'}`,
+		)
+	}
+
+	return {
+		ref,
+		commit: commit.id,
+	}
+}
+
+interface BitbucketCommitDetails {
+	id: string
+	authorTimestamp: number
+	committerTimestamp?: number
+}
+
+/**
+ * Look up the commit date of each SHA, a few requests at a time. Commits that
+ * cannot be read map to undefined.
+ */
+export async function fetchCommitDates(
+	project: string,
+	repository: string,
+	commits: readonly string[],
+	config: BitbucketConfig,
+): Promise<Array<string | undefined>> {
+	const repoPath = `rest/api/1.0/projects/${project}/repos/${repository}`
+
+	return mapWithConcurrency(commits, COMMIT_DATE_CONCURRENCY, async (commit) => {
+		const response = await fetchFromBitbucketAPI<BitbucketCommitDetails>(
+			`${repoPath}/commits/${commit}`,
+			{},
+			config,
+		)
+
+		const timestamp = response.data?.committerTimestamp ?? response.data?.authorTimestamp
+		return timestamp === undefined ? undefined : new Date(timestamp).toISOString()
+	})
+}
@@ -0,0 +1,224 @@
+import { pastDeadline } from '../../shared/timeouts'
+import { type BitbucketConfig, fetchFromBitbucketAPI } from '../api-client'
+import { requireServer } from '../config'
+import { resolveRef } from '../refs'
+
+export type BitbucketBlameArgs = {
+	project: string
+	repository: string
+	path: string
+	read_range?: [number, number]
+	ref?: string
+}
+
+export const toolDefinition = {
+	name: 'blame_file',
+	description: `Show who last changed each line of a file in a Bitbucket repository (like git blame).
+
+PARAMETERS:
+- project: The Bitbucket project key (required)
+- repository: The repository slug (required)
+- path: The file path within the repository (required)
+- read_range: Optional [startLine, endLine] to blame only a portion of the file
+- ref: Optional branch, tag or commit SHA to blame at (default: default branch)
+
+Returns the lines grouped into hunks of consecutive lines from the same commit, each with the commit SHA, author and date.
+Line numbers match read_file. Long files are blamed page by page; if the time limit cuts this short, the result has truncated: true and nextLine to pass as the start of read_range.`,
+	inputSchema: {
+		type: 'object',
+		properties: {
+			project: {
+				type: 'string',
+				description: 'The Bitbucket project key',
+			},
+			repository: {
+				type: 'string',
+				description: 'The repository slug',
+			},
+			path: {
+				type: 'string',
+				description: 'The file path within the repository',
+			},
+			read_range: {
+				type: 'array',
+				description: 'Optional [startLine, endLine] to blame only a portion',
+				items: { type: 'number' },
+				minItems: 2,
+				maxItems: 2,
+			},
+			ref: {
+				type: 'string',
+				description: 'Branch, tag or commit SHA to blame at (default: default branch)',
+			},
+		},
+		required: ['project', 'repository', 'path'],
+	},
+} as const
+
+export type BlameHunk = {
+	startLine: number
+	endLine: number
+	commit: string
+	author: string
+	date: string
+	content: string
+}
+
+export type BitbucketBlameResult = {
+	absolutePath: string
+	ref: string
+	commit: string
+	hunks: BlameHunk[]
+	truncated?: boolean
+	nextLine?: number
+}
+
+interface BitbucketBlame {
+	author: {
+		name: string
+		displayName?: string
+	}
+	authorTimestamp: number
+	// Older servers call the full SHA commitHash, newer ones commitId
+	commitHash?: string
+	commitId?: string
+	lineNumber: number
+	spannedLines: number
+}
+
+interface BitbucketBlameResponse {
+	lines: Array<{ text: string }>
+	start: number
+	size: number
+	isLastPage: boolean
+	blame: BitbucketBlame[]
+}
+
+const PAGE_LIMIT = 2000
+
+/**
+ * Add one page of blame to `hunks`. Each blame entry covers a run of lines
+ * from one commit; clip the runs to the lines on the page, number them like
+ * read_file, and continue a hunk the previous page ended in.
+ */
+function appendHunks(
+	hunks: BlameHunk[],
+	lines: Array<{ text: string }>,
+	blame: BitbucketBlame[],
+	startLine: number,
+): void {
+	const endLine = startLine + lines.length - 1
+
+	for (const entry of blame) {
+		const hunkStart = Math.max(startLine, entry.lineNumber)
+		const hunkEnd = Math.min(endLine, entry.lineNumber + entry.spannedLines - 1)
+
+		if (hunkStart > hunkEnd) {
+			continue
+		}
+
+		const commit = entry.commitId ?? entry.commitHash ?? ''
+		const content = lines
+			.slice(hunkStart - startLine, hunkEnd - startLine + 1)
+			.map((line, idx) => `${hunkStart + idx}: ${line.text}`)
+			.join('\n')
+
+		const previous = hunks[hunks.length - 1]
+		if (previous && previous.commit === commit && previous.endLine === hunkStart - 1) {
+			previous.endLine = hunkEnd
+			previous.content += `\n${content}`
+			continue
+		}
+
+		hunks.push({
+			startLine: hunkStart,
+			endLine: hunkEnd,
+			commit,
+			author: entry.author.displayName ?? entry.author.name,
+			date: new Date(entry.authorTimestamp).toISOString(),
+			content,
+		})
+	}
+}
+
+export async function blameFile(
+	args: BitbucketBlameArgs,
+	config: BitbucketConfig,
+	onProgress?: (message: string) => void,
+): Promise<BitbucketBlameResult> {
+	requireServer(config, toolDefinition.name)
+
+	const { project, repository, path, read_range, ref } = args
+
+	onProgress?.(`Blaming file "${path}" in ${project}/${repository}...`)
+
+	// Convert path to relative path within the repository
+	let relativePath = path
+
+	// Remove file:// prefix if present
+	if (relativePath.startsWith('file://')) {
+		relativePath = relativePath.slice(7)
+	}
+
+	// Remove project/repo prefix if present
+	const prefix = `/${project}/${repository}/`
+	if (relativePath.startsWith(prefix)) {
+		relativePath = relativePath.slice(prefix.length)
+	}
+
+	// Remove leading slash
+	if (relativePath.startsWith('/')) {
+		relativePath = relativePath.slice(1)
+	}
+
+	const resolved = await resolveRef(project, repository, ref, config)
+
+	// The annotated browse endpoint pages file content by line; walk the pages
+	// until the end of the range or the file
+	const startLine = read_range ? Math.max(1, read_range[0]) : 1
+	const lastLine = read_range ? Math.max(startLine, read_range[1]) : Number.POSITIVE_INFINITY
+	const basePath = `rest/api/1.0/projects/${project}/repos/${repository}/browse/${relativePath}?at=${resolved.commit}&blame=true`
+
+	const hunks: BlameHunk[] = []
+	let nextLine = startLine
+	let truncated = false
+
+	while (nextLine <= lastLine) {
+		if (nextLine > startLine && pastDeadline(config)) {
+			truncated = true
+			break
+		}
+
+		const lineLimit = Math.min(PAGE_LIMIT, lastLine - nextLine + 1)
+		const response = await fetchFromBitbucketAPI<BitbucketBlameResponse>(
+			`${basePath}&start=${nextLine - 1}&limit=${lineLimit}`,
+			{},
+			config,
+		)
+
+		if (!response.ok || !response.data) {
+			throw new Error(
+				`Failed to blame file: ${response.status} ${response.statusText || 'Unknown error'}`,
+			)
+		}
+
+		const { lines, blame, isLastPage } = response.data
+		appendHunks(hunks, lines, blame, nextLine)
+		nextLine += lines.length
+
+		if (isLastPage || lines.length === 0) {
+			break
+		}
+
+		onProgress?.(`Blamed ${nextLine - startLine} lines of "${path}"...`)
+	}
+
+	return {
+		absolutePath: `/${project}/${repository}/${relativePath}`,
+		ref: resolved.ref,
+		commit: resolved.commit,
+		hunks,
+		truncated: truncated || undefined,
+		nextLine: truncated ? nextLine : undefined,
+	}
+}
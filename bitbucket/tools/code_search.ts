@@ -1,11 +1,16 @@
+import picomatch from 'picomatch/posix'
+
 import { type BitbucketConfig, fetchFromBitbucketAPI } from '../api-client'
+import { searchCode as searchCloudCode } from '../cloud/code_search'
 
 export type CodeSearchArgs = {
 	query: string
 	project?: string
 	repository?: string
 	fileGlob?: string
+	language?: string
 	limit?: number
+	offset?: number
 }
 
 export const toolDefinition = {
@@ -17,8 +22,11 @@ PARAMETERS:
 - project: Filter to specific project key (optional)
 - repository: Filter to specific repository slug (optional)
 - fileGlob: Filter to files matching glob pattern (optional)
+- language: Filter to a programming language, e.g. "java" (optional)
 - limit: Maximum results (default: 25)
+- offset: Number of results to skip; use nextOffset from the previous page (default: 0)
 
+Filters are sent to Bitbucket as search modifiers, so they apply to the whole index rather than a single page.
 Returns matching files with code snippets and line numbers.`,
 	inputSchema: {
 		type: 'object',
@@ -39,10 +47,18 @@ Returns matching files with code snippets and line numbers.`,
 				type: 'string',
 				description: 'Filter to files matching glob pattern (e.g., "**/*.ts")',
 			},
+			language: {
+				type: 'string',
+				description: 'Filter to a programming language (e.g., "java")',
+			},
 			limit: {
 				type: 'number',
 				description: 'Maximum number of results (default: 25)',
 			},
+			offset: {
+				type: 'number',
+				description: 'Number of results to skip (default: 0)',
+			},
 		},
 		required: ['query'],
 	},
@@ -51,12 +67,12 @@ Returns matching files with code snippets and line numbers.`,
 export type CodeHit = {
 	repository: {
 		slug: string
-		id: number
+		id?: number
 		name: string
 		description?: string
 		project: {
 			key: string
-			id: number
+			id?: number
 			name: string
 		}
 	}
@@ -74,6 +90,8 @@ export type CodeHit = {
 export type CodeSearchResult = {
 	files: CodeHit[]
 	totalCount: number
+	hasMore: boolean
+	nextOffset?: number
 }
 
 type CodeSearchResponse = {
@@ -93,30 +111,75 @@ type CodeSearchResponse = {
 	}
 }
 
+/**
+ * Translate a file glob into Bitbucket search modifiers. The modifiers only
+ * narrow the search to a directory and extension, so callers still match the
+ * full glob against the returned paths.
+ */
+export function globToModifiers(fileGlob: string): string[] {
+	const { base, isGlob } = picomatch.scan(fileGlob)
+	const modifiers: string[] = []
+
+	const directory = isGlob ? base : base.split('/').slice(0, -1).join('/')
+	if (directory) {
+		modifiers.push(`path:${directory}`)
+	}
+
+	const extension = fileGlob.match(/(?:^|\/)[^/]*\.([A-Za-z0-9_-]+)$/)
+	if (extension) {
+		modifiers.push(`ext:${extension[1]}`)
+	}
+
+	return modifiers
+}
+
 export async function searchCode(
 	args: CodeSearchArgs,
 	config: BitbucketConfig,
 	onProgress?: (message: string) => void,
 ): Promise<CodeSearchResult> {
-	const { query, project, repository, fileGlob, limit = 25 } = args
+	if (config.deployment === 'cloud') {
+		return searchCloudCode(args, config, onProgress)
+	}
+
+	const { query, project, repository, fileGlob, language, limit = 25, offset = 0 } = args
 
 	onProgress?.(`Searching for "${query}" in code...`)
 
-	// Build entities object
-	const entities: Record<string, unknown> = {
-		code: {},
+	// Scope the search on the server with query modifiers
+	const modifiers: string[] = []
+
+	if (project) {
+		modifiers.push(`project:${project}`)
+	}
+
+	if (repository) {
+		modifiers.push(project ? `repo:${project}/${repository}` : `repo:${repository}`)
+	}
+
+	if (fileGlob) {
+		modifiers.push(...globToModifiers(fileGlob))
+	}
+
+	if (language) {
+		modifiers.push(`lang:${language}`)
 	}
 
 	// Build request body
 	const requestBody = {
-		query,
-		entities,
+		query: [query, ...modifiers].join(' '),
+		entities: {
+			code: {
+				start: offset,
+				limit,
+			},
+		},
 		limits: {
 			primary: limit,
 		},
 	}
 
-	// Make POST request to REST search endpoint
+	// Make POST request to REST search endpoint; searches are read-only, so safe to retry
 	const response = await fetchFromBitbucketAPI<CodeSearchResponse>(
 		'rest/search/latest/search?avatarSize=64',
 		{
@@ -125,6 +188,7 @@ export async function searchCode(
 				'Content-Type': 'application/json',
 			},
 			body: requestBody,
+			retry: true,
 		},
 		config,
 	)
@@ -143,37 +207,24 @@ export async function searchCode(
 		return {
 			files: [],
 			totalCount: 0,
+			hasMore: false,
 		}
 	}
 
-	const { values: files } = response.data.code
-
-	// Apply client-side filters
-	let filteredFiles = files
-
-	if (project) {
-		filteredFiles = filteredFiles.filter((file) => file.repository.project.key === project)
-	}
+	const { values, count, isLastPage, nextStart } = response.data.code
 
-	if (repository) {
-		filteredFiles = filteredFiles.filter((file) => file.repository.slug === repository)
-	}
+	// The path/ext modifiers are coarser than the glob, so refine the page client-side
+	let files = values
 
 	if (fileGlob) {
-		// Convert glob pattern to regex
-		const globRegex = new RegExp(
-			'^' +
-				fileGlob
-					.replace(/\./g, '\\.')
-					.replace(/\*\*/g, '.*')
-					.replace(/\*/g, '[^/]*') +
-				'$',
-		)
-		filteredFiles = filteredFiles.filter((file) => globRegex.test(file.file))
+		const isMatch = picomatch(fileGlob)
+		files = files.filter((file) => isMatch(file.file))
 	}
 
 	return {
-		files: filteredFiles,
-		totalCount: filteredFiles.length,
+		files,
+		totalCount: count,
+		hasMore: !isLastPage,
+		nextOffset: isLastPage ? undefined : nextStart,
 	}
 }
@@ -0,0 +1,180 @@
+import { type BitbucketConfig, fetchFromBitbucketAPI } from '../api-client'
+import { requireServer } from '../config'
+import { type BitbucketDiffResponse, type DiffPage, pageDiffs } from '../diff'
+
+export type CompareRefsArgs = {
+	project: string
+	repository: string
+	from: string
+	to: string
+	path?: string
+	commitLimit?: number
+	diffOffset?: number
+	diffLimit?: number
+	maxDiffBytes?: number
+}
+
+export const toolDefinition = {
+	name: 'compare_refs',
+	description: `Compare two branches, tags or commits in a Bitbucket repository (like git log/diff from..to).
+
+PARAMETERS:
+- project: The Bitbucket project key (required)
+- repository: The repository slug (required)
+- from: The older ref - branch, tag or commit SHA, e.g. "v1.2.0" (required)
+- to: The newer ref - branch, tag or commit SHA, e.g. "v1.3.0" (required)
+- path: Optional file or directory path to limit the commits and diff to
+- commitLimit: Maximum number of commits to list (default: 100)
+- diffOffset: Index of the first changed file to include a diff for; use nextDiffOffset from the previous call (default: 0)
+- diffLimit: Maximum number of file diffs to include (default: 20)
+- maxDiffBytes: Maximum total size of the included diffs (default: 60000)
+
+Returns the commits in "to" that are not in "from", every changed file with added/removed line counts,
+and unified diffs paged by file. Use this for "what shipped in release X".`,
+	inputSchema: {
+		type: 'object',
+		properties: {
+			project: {
+				type: 'string',
+				description: 'The Bitbucket project key',
+			},
+			repository: {
+				type: 'string',
+				description: 'The repository slug',
+			},
+			from: {
+				type: 'string',
+				description: 'The older ref - branch, tag or commit SHA',
+			},
+			to: {
+				type: 'string',
+				description: 'The newer ref - branch, tag or commit SHA',
+			},
+			path: {
+				type: 'string',
+				description: 'Optional file or directory path to limit the commits and diff to',
+			},
+			commitLimit: {
+				type: 'number',
+				description: 'Maximum number of commits to list (default: 100)',
+			},
+			diffOffset: {
+				type: 'number',
+				description: 'Index of the first changed file to include a diff for (default: 0)',
+			},
+			diffLimit: {
+				type: 'number',
+				description: 'Maximum number of file diffs to include (default: 20)',
+			},
+			maxDiffBytes: {
+				type: 'number',
+				description: 'Maximum total size of the included diffs (default: 60000)',
+			},
+		},
+		required: ['project', 'repository', 'from', 'to'],
+	},
+} as const
+
+export type CompareCommit = {
+	commit: string
+	author: string
+	date: string
+	message: string
+}
+
+export type CompareRefsResult = {
+	from: string
+	to: string
+	commits: CompareCommit[]
+	hasMoreCommits: boolean
+	diff: DiffPage
+}
+
+interface BitbucketCommit {
+	id: string
+	displayId: string
+	author: {
+		name: string
+		displayName?: string
+	}
+	authorTimestamp: number
+	message: string
+}
+
+interface BitbucketPaginatedResponse<T> {
+	values: T[]
+	size: number
+	isLastPage: boolean
+	nextPageStart?: number
+}
+
+export async function compareRefs(
+	args: CompareRefsArgs,
+	config: BitbucketConfig,
+	onProgress?: (message: string) => void,
+): Promise<CompareRefsResult> {
+	requireServer(config, toolDefinition.name)
+
+	const {
+		project,
+		repository,
+		from,
+		to,
+		path,
+		commitLimit = 100,
+		diffOffset = 0,
+		diffLimit = 20,
+		maxDiffBytes = 60000,
+	} = args
+
+	onProgress?.(`Comparing ${from}..${to} in ${project}/${repository}...`)
+
+	const repoPath = `rest/api/1.0/projects/${project}/repos/${repository}`
+
+	// Bitbucket's compare endpoints take the newer ref as `from` and the older one as `to`
+	const refs = `from=${encodeURIComponent(to)}&to=${encodeURIComponent(from)}`
+	const relativePath = path?.replace(/^\/+/, '').replace(/\/+$/, '')
+	const diffPath = relativePath ? `/${relativePath}` : ''
+
+	// The compare endpoint lists every commit in the range; the commits
+	// endpoint takes the same range (since..until) and can filter by path
+	const commitsPath = relativePath
+		? `${repoPath}/commits?since=${encodeURIComponent(from)}&until=${encodeURIComponent(to)}&path=${encodeURIComponent(relativePath)}&limit=${commitLimit}`
+		: `${repoPath}/compare/commits?${refs}&limit=${commitLimit}`
+
+	const [commitsResponse, diffResponse] = await Promise.all([
+		fetchFromBitbucketAPI<BitbucketPaginatedResponse<BitbucketCommit>>(commitsPath, {}, config),
+		fetchFromBitbucketAPI<BitbucketDiffResponse>(
+			`${repoPath}/compare/diff${diffPath}?${refs}&contextLines=3`,
+			{},
+			config,
+		),
+	])
+
+	if (!commitsResponse.ok || !commitsResponse.data) {
+		throw new Error(
+			`Failed to compare commits: ${commitsResponse.status} ${commitsResponse.statusText || 'Unknown error'}`,
+		)
+	}
+
+	if (!diffResponse.ok || !diffResponse.data) {
+		throw new Error(
+			`Failed to compare diff: ${diffResponse.status} ${diffResponse.statusText || 'Unknown error'}`,
+		)
+	}
+
+	const commits: CompareCommit[] = commitsResponse.data.values.map((commit) => ({
+		commit: commit.id,
+		author: commit.author.displayName ?? commit.author.name,
+		date: new Date(commit.authorTimestamp).toISOString(),
+		message: commit.message.split('\n')[0] ?? '',
+	}))
+
+	return {
+		from,
+		to,
+		commits,
+		hasMoreCommits: !commitsResponse.data.isLastPage,
+		diff: pageDiffs(diffResponse.data, diffOffset, diffLimit, maxDiffBytes),
+	}
+}
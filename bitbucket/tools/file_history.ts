@@ -0,0 +1,245 @@
+import { DEADLINE_WARNING, pastDeadline } from '../../shared/timeouts'
+import { type BitbucketConfig, fetchFromBitbucketAPI } from '../api-client'
+import { mapWithConcurrency } from '../concurrency'
+import { requireServer } from '../config'
+import { resolveRef } from '../refs'
+
+export type FileHistoryArgs = {
+	project: string
+	repository: string
+	path: string
+	ref?: string
+	since?: string
+	until?: string
+	limit?: number
+	offset?: number
+}
+
+export const toolDefinition = {
+	name: 'file_history',
+	description: `List the commits that changed a file or directory in a Bitbucket repository, newest first.
+
+PARAMETERS:
+- project: The Bitbucket project key (required)
+- repository: The repository slug (required)
+- path: The file or directory path within the repository (required)
+- ref: Optional branch, tag or commit SHA to start from (default: default branch)
+- since: Only commits authored on or after this ISO 8601 date, e.g. "2024-01-31" (optional)
+- until: Only commits authored on or before this ISO 8601 date (optional)
+- limit: Maximum results (default: 25)
+- offset: Number of results to skip (default: 0)
+
+Returns commits with SHA, author, date, message and the pull request that brought them in, where there is one.
+Use this to answer "when and why did this change".`,
+	inputSchema: {
+		type: 'object',
+		properties: {
+			project: {
+				type: 'string',
+				description: 'The Bitbucket project key',
+			},
+			repository: {
+				type: 'string',
+				description: 'The repository slug',
+			},
+			path: {
+				type: 'string',
+				description: 'The file or directory path within the repository',
+			},
+			ref: {
+				type: 'string',
+				description: 'Branch, tag or commit SHA to start from (default: default branch)',
+			},
+			since: {
+				type: 'string',
+				description: 'Only commits authored on or after this ISO 8601 date',
+			},
+			until: {
+				type: 'string',
+				description: 'Only commits authored on or before this ISO 8601 date',
+			},
+			limit: {
+				type: 'number',
+				description: 'Maximum number of results (default: 25)',
+			},
+			offset: {
+				type: 'number',
+				description: 'Number of results to skip (default: 0)',
+			},
+		},
+		required: ['project', 'repository', 'path'],
+	},
+} as const
+
+export type CommitInfo = {
+	commit: string
+	author: string
+	authorEmail?: string
+	date: string
+	message: string
+	pullRequest?: {
+		id: number
+		title: string
+		state: string
+	}
+}
+
+export type FileHistoryResult = {
+	path: string
+	ref: string
+	commit: string
+	commits: CommitInfo[]
+	hasMore: boolean
+	warning?: string
+}
+
+interface BitbucketCommit {
+	id: string
+	displayId: string
+	author: {
+		name: string
+		emailAddress?: string
+		displayName?: string
+	}
+	authorTimestamp: number
+	committerTimestamp?: number
+	message: string
+}
+
+interface BitbucketPullRequest {
+	id: number
+	title: string
+	state: string
+}
+
+interface BitbucketPaginatedResponse<T> {
+	values: T[]
+	size: number
+	isLastPage: boolean
+	nextPageStart?: number
+}
+
+const PAGE_LIMIT = 100
+const PULL_REQUEST_CONCURRENCY = 8
+
+function parseDate(value: string | undefined, name: string): number | undefined {
+	if (!value) {
+		return undefined
+	}
+
+	const timestamp = Date.parse(value)
+	if (Number.isNaN(timestamp)) {
+		throw new Error(`${name} must be an ISO 8601 date (e.g. "2024-01-31"), got "${value}"`)
+	}
+
+	return timestamp
+}
+
+export async function fileHistory(
+	args: FileHistoryArgs,
+	config: BitbucketConfig,
+	onProgress?: (message: string) => void,
+): Promise<FileHistoryResult> {
+	requireServer(config, toolDefinition.name)
+
+	const { project, repository, path, ref, since, until, limit = 25, offset = 0 } = args
+
+	const sinceTime = parseDate(since, 'since')
+	const untilTime = parseDate(until, 'until')
+
+	// Remove project/repo prefix and leading slash if present
+	let relativePath = path
+	const prefix = `/${project}/${repository}/`
+	if (relativePath.startsWith(prefix)) {
+		relativePath = relativePath.slice(prefix.length)
+	}
+	relativePath = relativePath.replace(/^\/+/, '').replace(/\/+$/, '')
+
+	onProgress?.(`Fetching history of "${relativePath}" in ${project}/${repository}...`)
+
+	const resolved = await resolveRef(project, repository, ref, config)
+	const repoPath = `rest/api/1.0/projects/${project}/repos/${repository}`
+
+	// Bitbucket has no date filter, so walk the history newest first and
+	// collect one commit past the requested page to know whether more exist
+	const wanted = offset + limit + 1
+	const matched: BitbucketCommit[] = []
+	let start = 0
+	let isLastPage = false
+	let warning: string | undefined
+
+	while (!isLastPage && matched.length < wanted) {
+		if (start > 0 && pastDeadline(config)) {
+			warning = DEADLINE_WARNING
+			break
+		}
+
+		const response = await fetchFromBitbucketAPI<BitbucketPaginatedResponse<BitbucketCommit>>(
+			`${repoPath}/commits?path=${encodeURIComponent(relativePath)}&until=${resolved.commit}&limit=${PAGE_LIMIT}&start=${start}`,
+			{},
+			config,
+		)
+
+		if (!response.ok || !response.data) {
+			throw new Error(
+				`Failed to fetch commit history: ${response.status} ${response.statusText || 'Unknown error'}`,
+			)
+		}
+
+		for (const commit of response.data.values) {
+			// Rebased and cherry-picked commits keep their old author date, so
+			// filter on it but only stop the walk once commits were committed
+			// before `since`; history is not ordered by author date
+			const committedAt = commit.committerTimestamp ?? commit.authorTimestamp
+			if (sinceTime !== undefined && committedAt < sinceTime) {
+				isLastPage = true
+				break
+			}
+			if (
+				(sinceTime === undefined || commit.authorTimestamp >= sinceTime) &&
+				(untilTime === undefined || commit.authorTimestamp <= untilTime)
+			) {
+				matched.push(commit)
+			}
+		}
+
+		isLastPage ||= response.data.isLastPage
+		start = response.data.nextPageStart ?? start + response.data.values.length
+	}
+
+	const page = matched.slice(offset, offset + limit)
+
+	onProgress?.(`Looking up pull requests for ${page.length} commits...`)
+
+	const pullRequests = await mapWithConcurrency(page, PULL_REQUEST_CONCURRENCY, async (commit) => {
+		const response = await fetchFromBitbucketAPI<BitbucketPaginatedResponse<BitbucketPullRequest>>(
+			`${repoPath}/commits/${commit.id}/pull-requests?limit=1`,
+			{},
+			config,
+		)
+		return response.data?.values[0]
+	})
+
+	const commits: CommitInfo[] = page.map((commit, index) => {
+		const pullRequest = pullRequests[index]
+		return {
+			commit: commit.id,
+			author: commit.author.displayName ?? commit.author.name,
+			authorEmail: commit.author.emailAddress,
+			date: new Date(commit.authorTimestamp).toISOString(),
+			message: commit.message,
+			pullRequest: pullRequest
+				? { id: pullRequest.id, title: pullRequest.title, state: pullRequest.state }
+				: undefined,
+		}
+	})
+
+	return {
+		path: `/${project}/${repository}/${relativePath}`,
+		ref: resolved.ref,
+		commit: resolved.commit,
+		commits,
+		hasMore: warning !== undefined || matched.length > offset + limit,
+		warning,
+	}
+}
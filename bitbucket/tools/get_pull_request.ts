@@ -0,0 +1,299 @@
+import { type BitbucketConfig, fetchFromBitbucketAPI } from '../api-client'
+import { requireServer } from '../config'
+import {
+	appendFileDiff,
+	type BitbucketDiffResponse,
+	type DiffPage,
+	type FileChange,
+	type FileDiff,
+	summarizeDiff,
+} from '../diff'
+import {
+	type BitbucketPullRequest,
+	type BitbucketUser,
+	type PullRequestSummary,
+	summarizePullRequest,
+} from './list_pull_requests'
+
+export type GetPullRequestArgs = {
+	project: string
+	repository: string
+	id: number
+	activityLimit?: number
+	diffOffset?: number
+	diffLimit?: number
+	maxDiffBytes?: number
+}
+
+export const toolDefinition = {
+	name: 'get_pull_request',
+	description: `Read a Bitbucket pull request: description, participants, comments and activity, and its diff.
+
+PARAMETERS:
+- project: The Bitbucket project key (required)
+- repository: The repository slug (required)
+- id: The pull request ID (required)
+- activityLimit: Maximum number of recent activities and comments (default: 50)
+- diffOffset: Index of the first changed file to include; use nextDiffOffset from the previous call (default: 0)
+- diffLimit: Maximum number of changed files to include (default: 20)
+- maxDiffBytes: Maximum total size of the included diffs (default: 60000)
+
+Changed files are paged: each page lists its files with added/removed line counts and their unified diffs.`,
+	inputSchema: {
+		type: 'object',
+		properties: {
+			project: {
+				type: 'string',
+				description: 'The Bitbucket project key',
+			},
+			repository: {
+				type: 'string',
+				description: 'The repository slug',
+			},
+			id: {
+				type: 'number',
+				description: 'The pull request ID',
+			},
+			activityLimit: {
+				type: 'number',
+				description: 'Maximum number of recent activities and comments (default: 50)',
+			},
+			diffOffset: {
+				type: 'number',
+				description: 'Index of the first changed file to include (default: 0)',
+			},
+			diffLimit: {
+				type: 'number',
+				description: 'Maximum number of changed files to include (default: 20)',
+			},
+			maxDiffBytes: {
+				type: 'number',
+				description: 'Maximum total size of the included diffs (default: 60000)',
+			},
+		},
+		required: ['project', 'repository', 'id'],
+	},
+} as const
+
+export type Participant = {
+	user: string
+	role: string
+	status: string
+}
+
+export type Activity = {
+	date: string
+	user: string
+	action: string
+	comment?: string
+	path?: string
+	line?: number
+	replies?: Array<{ date: string; user: string; comment: string }>
+}
+
+export type GetPullRequestResult = PullRequestSummary & {
+	description: string | null
+	sourceCommit: string
+	targetCommit: string
+	participants: Participant[]
+	activities: Activity[]
+	diff: DiffPage
+	warning?: string
+}
+
+interface BitbucketParticipant {
+	user: BitbucketUser
+	role: 'AUTHOR' | 'REVIEWER' | 'PARTICIPANT'
+	approved: boolean
+	status: string
+}
+
+interface BitbucketComment {
+	id: number
+	text: string
+	author: BitbucketUser
+	createdDate: number
+	comments?: BitbucketComment[]
+}
+
+interface BitbucketActivity {
+	id: number
+	createdDate: number
+	user: BitbucketUser
+	action: string
+	comment?: BitbucketComment
+	commentAnchor?: {
+		path?: string
+		line?: number
+	}
+}
+
+interface BitbucketChange {
+	path: { toString: string }
+	srcPath?: { toString: string }
+	type: string
+}
+
+interface BitbucketPaginatedResponse<T> {
+	values: T[]
+	size: number
+	isLastPage: boolean
+	nextPageStart?: number
+}
+
+function flattenReplies(
+	comments: BitbucketComment[] | undefined,
+): Array<{ date: string; user: string; comment: string }> {
+	return (comments ?? []).flatMap((reply) => [
+		{
+			date: new Date(reply.createdDate).toISOString(),
+			user: reply.author.displayName,
+			comment: reply.text,
+		},
+		...flattenReplies(reply.comments),
+	])
+}
+
+export async function getPullRequest(
+	args: GetPullRequestArgs,
+	config: BitbucketConfig,
+	onProgress?: (message: string) => void,
+): Promise<GetPullRequestResult> {
+	requireServer(config, toolDefinition.name)
+
+	const {
+		project,
+		repository,
+		id,
+		activityLimit = 50,
+		diffOffset = 0,
+		diffLimit = 20,
+		maxDiffBytes = 60000,
+	} = args
+
+	onProgress?.(`Reading pull request #${id} in ${project}/${repository}...`)
+
+	const pullRequestPath = `rest/api/1.0/projects/${project}/repos/${repository}/pull-requests/${id}`
+
+	const [pullRequestResponse, participantsResponse, activitiesResponse, changesResponse] =
+		await Promise.all([
+			fetchFromBitbucketAPI<BitbucketPullRequest>(pullRequestPath, {}, config),
+			fetchFromBitbucketAPI<BitbucketPaginatedResponse<BitbucketParticipant>>(
+				`${pullRequestPath}/participants?limit=100`,
+				{},
+				config,
+			),
+			fetchFromBitbucketAPI<BitbucketPaginatedResponse<BitbucketActivity>>(
+				`${pullRequestPath}/activities?limit=${activityLimit}`,
+				{},
+				config,
+			),
+			fetchFromBitbucketAPI<BitbucketPaginatedResponse<BitbucketChange>>(
+				`${pullRequestPath}/changes?start=${diffOffset}&limit=${diffLimit}`,
+				{},
+				config,
+			),
+		])
+
+	if (!pullRequestResponse.ok || !pullRequestResponse.data) {
+		throw new Error(
+			`Failed to read pull request: ${pullRequestResponse.status} ${pullRequestResponse.statusText || 'Unknown error'}`,
+		)
+	}
+
+	if (!changesResponse.ok || !changesResponse.data) {
+		throw new Error(
+			`Failed to list pull request changes: ${changesResponse.status} ${changesResponse.statusText || 'Unknown error'}`,
+		)
+	}
+
+	const pullRequest = pullRequestResponse.data
+	const changes = changesResponse.data.values
+	const warnings: string[] = []
+
+	if (!participantsResponse.ok) {
+		warnings.push(
+			`Participants could not be read: ${participantsResponse.status} ${participantsResponse.statusText || 'Unknown error'}.`,
+		)
+	}
+
+	if (!activitiesResponse.ok) {
+		warnings.push(
+			`Activity and comments could not be read: ${activitiesResponse.status} ${activitiesResponse.statusText || 'Unknown error'}.`,
+		)
+	}
+
+	// Diff one file at a time so a large pull request never has to be
+	// downloaded whole; stop once the page holds maxDiffBytes of diff text
+	const files: FileChange[] = []
+	const diffs: FileDiff[] = []
+	let bytes = 0
+	let index = 0
+
+	for (; index < changes.length; index++) {
+		if (bytes >= maxDiffBytes) {
+			break
+		}
+
+		const change = changes[index] as BitbucketChange
+		const path = change.path.toString
+		onProgress?.(`Reading diff for ${path}...`)
+
+		const srcPath = change.srcPath ? `&srcPath=${encodeURIComponent(change.srcPath.toString)}` : ''
+		const diffResponse = await fetchFromBitbucketAPI<BitbucketDiffResponse>(
+			`${pullRequestPath}/diff/${path.split('/').map(encodeURIComponent).join('/')}?contextLines=3&withComments=false${srcPath}`,
+			{},
+			config,
+		)
+
+		if (!diffResponse.ok || !diffResponse.data) {
+			throw new Error(
+				`Failed to read pull request diff for ${path}: ${diffResponse.status} ${diffResponse.statusText || 'Unknown error'}`,
+			)
+		}
+
+		for (const diff of diffResponse.data.diffs) {
+			const fileChange = summarizeDiff(diff)
+			files.push(fileChange)
+			bytes = appendFileDiff(diffs, fileChange.path, diff, bytes, maxDiffBytes)
+		}
+	}
+
+	const hasMore = index < changes.length || !changesResponse.data.isLastPage
+
+	const participants: Participant[] = (participantsResponse.data?.values ?? []).map(
+		(participant) => ({
+			user: participant.user.displayName,
+			role: participant.role,
+			status: participant.status,
+		}),
+	)
+
+	const activities: Activity[] = (activitiesResponse.data?.values ?? []).map((activity) => ({
+		date: new Date(activity.createdDate).toISOString(),
+		user: activity.user.displayName,
+		action: activity.action,
+		comment: activity.comment?.text,
+		path: activity.commentAnchor?.path,
+		line: activity.commentAnchor?.line,
+		replies: activity.comment?.comments?.length
+			? flattenReplies(activity.comment.comments)
+			: undefined,
+	}))
+
+	return {
+		...summarizePullRequest(pullRequest),
+		description: pullRequest.description || null,
+		sourceCommit: pullRequest.fromRef.latestCommit,
+		targetCommit: pullRequest.toRef.latestCommit,
+		participants,
+		activities,
+		diff: {
+			files,
+			diffs,
+			hasMore,
+			nextDiffOffset: hasMore ? diffOffset + index : undefined,
+		},
+		warning: warnings.length ? warnings.join(' ') : undefined,
+	}
+}
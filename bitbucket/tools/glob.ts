@@ -1,6 +1,10 @@
 import picomatch from 'picomatch/posix'
 
+import { DEADLINE_WARNING, pastDeadline } from '../../shared/timeouts'
 import { type BitbucketConfig, fetchFromBitbucketAPI } from '../api-client'
+import { globFiles as globCloudFiles } from '../cloud/glob'
+import { mapWithConcurrency } from '../concurrency'
+import { resolveRef } from '../refs'
 
 export type BitbucketGlobArgs = {
 	project: string
@@ -8,6 +12,7 @@ export type BitbucketGlobArgs = {
 	filePattern: string
 	limit?: number
 	offset?: number
+	ref?: string
 }
 
 export const toolDefinition = {
@@ -20,8 +25,11 @@ PARAMETERS:
 - filePattern: Glob pattern to match files (required, e.g., "**/*.ts")
 - limit: Maximum results (default: 100)
 - offset: Number of results to skip (default: 0)
+- ref: Optional branch, tag or commit SHA to list (default: default branch)
 
-Returns list of file paths matching the pattern.`,
+Only the literal directory prefix of the pattern is listed (e.g. "src/api" for "src/api/**"),
+so anchoring patterns to a directory is much faster than starting with "**".
+Returns list of file paths matching the pattern, the commit they were listed at, and whether more matches exist.`,
 	inputSchema: {
 		type: 'object',
 		properties: {
@@ -45,85 +53,145 @@ Returns list of file paths matching the pattern.`,
 				type: 'number',
 				description: 'Number of results to skip (default: 0)',
 			},
+			ref: {
+				type: 'string',
+				description: 'Branch, tag or commit SHA to list (default: default branch)',
+			},
 		},
 		required: ['project', 'repository', 'filePattern'],
 	},
 } as const
 
+export type BitbucketGlobResult = {
+	files: string[]
+	ref: string
+	commit: string
+	hasMore: boolean
+	warning?: string
+}
+
+interface BitbucketPaginatedResponse<T> {
+	values: T[]
+	size: number
+	isLastPage: boolean
+	start: number
+	limit: number
+	nextPageStart?: number
+}
+
 interface BitbucketFileItem {
 	path: {
 		components: string[]
 		toString: string
 	}
-	type: 'FILE' | 'DIRECTORY'
+	type: 'FILE' | 'DIRECTORY' | 'SUBMODULE'
 }
 
 interface BitbucketBrowseResponse {
-	children: {
-		values: BitbucketFileItem[]
-		size: number
-		isLastPage: boolean
-		start: number
-		limit: number
-		nextPageStart?: number
-	}
+	children: BitbucketPaginatedResponse<BitbucketFileItem>
 }
 
+const PAGE_LIMIT = 1000
+const BROWSE_CONCURRENCY = 8
+
 export async function globFiles(
 	args: BitbucketGlobArgs,
 	config: BitbucketConfig,
 	onProgress?: (message: string) => void,
-): Promise<string[]> {
-	const { project, repository, filePattern, limit = 100, offset = 0 } = args
+): Promise<BitbucketGlobResult> {
+	if (config.deployment === 'cloud') {
+		return globCloudFiles(args, config, onProgress)
+	}
+
+	const { project, repository, filePattern, limit = 100, offset = 0, ref } = args
 
 	onProgress?.(`Finding files matching "${filePattern}" in ${project}/${repository}...`)
 
-	const allFiles: string[] = []
+	const resolved = await resolveRef(project, repository, ref, config)
+	const repoPath = `rest/api/1.0/projects/${project}/repos/${repository}`
 
-	// Recursively fetch files from directories
-	const fetchDirectory = async (path: string = ''): Promise<void> => {
-		let start = 0
-		const pageLimit = 1000
-		let isLastPage = false
+	const isMatch = picomatch(filePattern)
 
-		while (!isLastPage) {
-			// Bitbucket Server API path for browsing repository files
-			const apiPath = `rest/api/1.0/projects/${project}/repos/${repository}/browse${path ? `/${path}` : ''}?limit=${pageLimit}&start=${start}`
+	// Only list below the literal prefix of the pattern; a pattern without
+	// wildcards names a single file, so list its directory
+	const { base, isGlob } = picomatch.scan(filePattern)
+	const prefix = isGlob ? base : base.split('/').slice(0, -1).join('/')
 
-			const response = await fetchFromBitbucketAPI<BitbucketBrowseResponse>(apiPath, {}, config)
+	// Collect one match past the requested page so we know whether more exist
+	const wanted = limit ? offset + limit + 1 : Number.POSITIVE_INFINITY
+	const matchedFiles: string[] = []
 
-			if (!response.ok || !response.data) {
-				// Some directories may not be accessible or may not exist
-				return
-			}
+	const addFile = (path: string) => {
+		if (isMatch(path)) {
+			matchedFiles.push(path)
+		}
+	}
+
+	// The files endpoint streams every path below a directory in one flat listing
+	let start = 0
+	let isLastPage = false
+	let listed = 0
+	let warning: string | undefined
+	let stoppedAtDeadline = false
 
-			const items = response.data.children.values
+	while (!isLastPage && matchedFiles.length < wanted) {
+		if (listed > 0 && pastDeadline(config)) {
+			stoppedAtDeadline = true
+			warning = DEADLINE_WARNING
+			break
+		}
+
+		const apiPath = `${repoPath}/files${prefix ? `/${prefix}` : ''}?at=${resolved.commit}&limit=${PAGE_LIMIT}&start=${start}`
 
-			// Process each item
-			for (const item of items) {
-				// Build path from components
-				const itemPath = item.path.components.join('/')
+		const response = await fetchFromBitbucketAPI<BitbucketPaginatedResponse<string>>(
+			apiPath,
+			{},
+			config,
+		)
 
-				if (item.type === 'FILE') {
-					allFiles.push(itemPath)
-				} else if (item.type === 'DIRECTORY') {
-					// Recursively fetch subdirectory
-					await fetchDirectory(itemPath)
+		if (response.status === 404) {
+			// The prefix directory does not exist at this commit
+			break
+		}
+
+		if (!response.ok || !response.data) {
+			if (start === 0) {
+				// Some servers refuse or time out on flat listings of huge repositories
+				onProgress?.('Flat file listing unavailable, walking directories instead...')
+				const browsed = await browseFiles(
+					repoPath,
+					prefix,
+					resolved.commit,
+					isMatch,
+					wanted,
+					config,
+					onProgress,
+				)
+				matchedFiles.push(...browsed.files)
+				if (pastDeadline(config) && matchedFiles.length < wanted) {
+					stoppedAtDeadline = true
+					warning = DEADLINE_WARNING
+				} else if (browsed.failedDirectories > 0) {
+					warning = `Could not list ${browsed.failedDirectories} directories; the results may be incomplete`
 				}
+				break
 			}
 
-			isLastPage = response.data.children.isLastPage
-			if (!isLastPage && response.data.children.nextPageStart) {
-				start = response.data.children.nextPageStart
-			}
+			throw new Error(
+				`Failed to list files: ${response.status} ${response.statusText || 'Unknown error'}`,
+			)
 		}
-	}
 
-	await fetchDirectory()
+		for (const path of response.data.values) {
+			addFile(prefix ? `${prefix}/${path}` : path)
+		}
 
-	// Apply glob pattern matching
-	const isMatch = picomatch(filePattern)
-	const matchedFiles = allFiles.filter((p) => isMatch(p))
+		listed += response.data.values.length
+		onProgress?.(`Listed ${listed} files, ${matchedFiles.length} matching...`)
+
+		isLastPage = response.data.isLastPage
+		start = response.data.nextPageStart ?? start + response.data.values.length
+	}
 
 	// Apply pagination
 	const paginatedFiles = limit
@@ -133,5 +201,84 @@ export async function globFiles(
 	// Convert to file paths
 	const files = paginatedFiles.map((path) => `/${project}/${repository}/${path}`)
 
-	return files
+	return {
+		files,
+		ref: resolved.ref,
+		commit: resolved.commit,
+		hasMore: stoppedAtDeadline || (limit ? matchedFiles.length > offset + limit : false),
+		warning,
+	}
+}
+
+/**
+ * Walk the directory tree below `prefix` with the browse endpoint, one level
+ * at a time with a bounded number of concurrent requests. The walk stops once
+ * it has `wanted` matches, or at the call's deadline with whatever it has
+ * found. Matches are ordered by depth, then by path, so every page of a
+ * listing sees the same order however far the walk went.
+ */
+async function browseFiles(
+	repoPath: string,
+	prefix: string,
+	commit: string,
+	isMatch: (path: string) => boolean,
+	wanted: number,
+	config: BitbucketConfig,
+	onProgress?: (message: string) => void,
+): Promise<{ files: string[]; failedDirectories: number }> {
+	const matchedFiles: string[] = []
+	let failedDirectories = 0
+	let directories = [prefix]
+
+	while (directories.length > 0 && matchedFiles.length < wanted && !pastDeadline(config)) {
+		onProgress?.(`Browsing ${directories.length} directories...`)
+
+		const levels = await mapWithConcurrency(directories, BROWSE_CONCURRENCY, async (directory) => {
+			const files: string[] = []
+			const subdirectories: string[] = []
+			let start = 0
+			let isLastPage = false
+
+			while (!isLastPage && !pastDeadline(config)) {
+				const apiPath = `${repoPath}/browse${directory ? `/${directory}` : ''}?at=${commit}&limit=${PAGE_LIMIT}&start=${start}`
+
+				const response = await fetchFromBitbucketAPI<BitbucketBrowseResponse>(apiPath, {}, config)
+
+				if (!response.ok || !response.data?.children) {
+					// A missing prefix just has no files; anything else leaves a gap
+					if (!(directory === prefix && response.status === 404)) {
+						failedDirectories++
+					}
+					break
+				}
+
+				const { children } = response.data
+
+				for (const item of children.values) {
+					// Child paths are relative to the browsed directory
+					const relativePath = item.path.components.join('/')
+					const itemPath = directory ? `${directory}/${relativePath}` : relativePath
+
+					if (item.type === 'FILE') {
+						if (isMatch(itemPath)) {
+							files.push(itemPath)
+						}
+					} else if (item.type === 'DIRECTORY') {
+						subdirectories.push(itemPath)
+					}
+				}
+
+				isLastPage = children.isLastPage
+				start = children.nextPageStart ?? start + children.values.length
+			}
+
+			return { files, subdirectories }
+		})
+
+		// Concurrent walks finish in any order
+		matchedFiles.push(...levels.flatMap((level) => level.files).sort())
+		directories = levels.flatMap((level) => level.subdirectories).sort()
+	}
+
+	return { files: matchedFiles, failedDirectories }
 }
@@ -0,0 +1,161 @@
+import { type BitbucketConfig, fetchFromBitbucketAPI } from '../api-client'
+import { requireServer } from '../config'
+import { fetchCommitDates } from '../refs'
+
+export type ListBranchesArgs = {
+	project: string
+	repository: string
+	filter?: string
+	sort?: 'recent' | 'name'
+	limit?: number
+	offset?: number
+}
+
+export const toolDefinition = {
+	name: 'list_branches',
+	description: `List branches in a Bitbucket repository.
+
+PARAMETERS:
+- project: The Bitbucket project key (required)
+- repository: The repository slug (required)
+- filter: Only branches whose name contains this text (optional)
+- sort: "recent" for most recently committed first, or "name" (default: recent)
+- limit: Maximum results (default: 25)
+- offset: Number of results to skip; use nextOffset from the previous page (default: 0)
+
+Returns branches with the default-branch flag and their latest commit SHA and date.
+Use the branch names as the ref argument of the other tools.`,
+	inputSchema: {
+		type: 'object',
+		properties: {
+			project: {
+				type: 'string',
+				description: 'The Bitbucket project key',
+			},
+			repository: {
+				type: 'string',
+				description: 'The repository slug',
+			},
+			filter: {
+				type: 'string',
+				description: 'Only branches whose name contains this text',
+			},
+			sort: {
+				type: 'string',
+				enum: ['recent', 'name'],
+				description: 'Most recently committed first, or alphabetical (default: recent)',
+			},
+			limit: {
+				type: 'number',
+				description: 'Maximum number of results (default: 25)',
+			},
+			offset: {
+				type: 'number',
+				description: 'Number of results to skip (default: 0)',
+			},
+		},
+		required: ['project', 'repository'],
+	},
+} as const
+
+export type BranchInfo = {
+	name: string
+	isDefault: boolean
+	commit: string
+	date?: string
+}
+
+export type ListBranchesResult = {
+	branches: BranchInfo[]
+	hasMore: boolean
+	nextOffset?: number
+}
+
+const LATEST_COMMIT_METADATA =
+	'com.atlassian.bitbucket.server.bitbucket-branch:latest-commit-metadata'
+
+interface BitbucketBranch {
+	id: string
+	displayId: string
+	latestCommit: string
+	isDefault: boolean
+	metadata?: Record<string, { committerTimestamp?: number; authorTimestamp?: number } | undefined>
+}
+
+interface BitbucketPaginatedResponse<T> {
+	values: T[]
+	size: number
+	isLastPage: boolean
+	nextPageStart?: number
+}
+
+export async function listBranches(
+	args: ListBranchesArgs,
+	config: BitbucketConfig,
+	onProgress?: (message: string) => void,
+): Promise<ListBranchesResult> {
+	requireServer(config, toolDefinition.name)
+
+	const { project, repository, filter, sort = 'recent', limit = 25, offset = 0 } = args
+
+	onProgress?.(`Listing branches in ${project}/${repository}...`)
+
+	const params = new URLSearchParams({
+		orderBy: sort === 'recent' ? 'MODIFICATION' : 'ALPHABETICAL',
+		details: 'true',
+		start: String(offset),
+		limit: String(limit),
+	})
+
+	if (filter) {
+		params.set('filterText', filter)
+	}
+
+	const response = await fetchFromBitbucketAPI<BitbucketPaginatedResponse<BitbucketBranch>>(
+		`rest/api/1.0/projects/${project}/repos/${repository}/branches?${params}`,
+		{},
+		config,
+	)
+
+	if (!response.ok || !response.data) {
+		throw new Error(
+			`Failed to list branches: ${response.status} ${response.statusText || 'Unknown error'}`,
+		)
+	}
+
+	const { values, isLastPage, nextPageStart } = response.data
+
+	// The branch details plugin usually supplies the commit date; look up the rest
+	const timestamps = values.map((branch) => {
+		const metadata = branch.metadata?.[LATEST_COMMIT_METADATA]
+		return metadata?.committerTimestamp ?? metadata?.authorTimestamp
+	})
+
+	const missing = values.filter((_, index) => timestamps[index] === undefined)
+	const missingDates = await fetchCommitDates(
+		project,
+		repository,
+		missing.map((branch) => branch.latestCommit),
+		config,
+	)
+
+	let missingIndex = 0
+	const branches: BranchInfo[] = values.map((branch, index) => {
+		const timestamp = timestamps[index]
+		return {
+			name: branch.displayId,
+			isDefault: branch.isDefault,
+			commit: branch.latestCommit,
+			date:
+				timestamp === undefined
+					? missingDates[missingIndex++]
+					: new Date(timestamp).toISOString(),
+		}
+	})
+
+	return {
+		branches,
+		hasMore: !isLastPage,
+		nextOffset: isLastPage ? undefined : nextPageStart,
+	}
+}
@@ -0,0 +1,140 @@
+import { type BitbucketConfig, fetchFromBitbucketAPI } from '../api-client'
+import { requireServer } from '../config'
+import { resolveRef } from '../refs'
+
+export type BitbucketListDirectoryArgs = {
+	project: string
+	repository: string
+	path?: string
+	limit?: number
+	offset?: number
+	ref?: string
+}
+
+export const toolDefinition = {
+	name: 'list_directory',
+	description: `List the contents of a directory in a Bitbucket repository.
+
+PARAMETERS:
+- project: The Bitbucket project key (required)
+- repository: The repository slug (required)
+- path: The directory path to list (default: root)
+- limit: Maximum number of entries to return (default: 100)
+- offset: Number of entries to skip (default: 0)
+- ref: Optional branch, tag or commit SHA to list (default: default branch)
+
+Returns list of files and directories, with directories having a trailing slash and files their size in bytes.`,
+	inputSchema: {
+		type: 'object',
+		properties: {
+			project: {
+				type: 'string',
+				description: 'The Bitbucket project key',
+			},
+			repository: {
+				type: 'string',
+				description: 'The repository slug',
+			},
+			path: {
+				type: 'string',
+				description: 'The directory path to list (default: root)',
+			},
+			limit: {
+				type: 'number',
+				description: 'Maximum number of entries to return (default: 100)',
+			},
+			offset: {
+				type: 'number',
+				description: 'Number of entries to skip (default: 0)',
+			},
+			ref: {
+				type: 'string',
+				description: 'Branch, tag or commit SHA to list (default: default branch)',
+			},
+		},
+		required: ['project', 'repository'],
+	},
+} as const
+
+export type DirectoryEntry = {
+	name: string
+	size?: number
+}
+
+export type BitbucketListDirectoryResult = {
+	path: string
+	entries: DirectoryEntry[]
+	ref: string
+	commit: string
+	hasMore: boolean
+	nextOffset?: number
+}
+
+interface BitbucketFileItem {
+	path: {
+		components: string[]
+		name: string
+		toString: string
+	}
+	type: 'FILE' | 'DIRECTORY' | 'SUBMODULE'
+	size?: number
+}
+
+interface BitbucketBrowseResponse {
+	children: {
+		values: BitbucketFileItem[]
+		size: number
+		isLastPage: boolean
+		start: number
+		limit: number
+		nextPageStart?: number
+	}
+}
+
+export async function listDirectory(
+	args: BitbucketListDirectoryArgs,
+	config: BitbucketConfig,
+	onProgress?: (message: string) => void,
+): Promise<BitbucketListDirectoryResult> {
+	requireServer(config, toolDefinition.name)
+
+	const { project, repository, path = '', limit = 100, offset = 0, ref } = args
+
+	// Normalize the directory path
+	const directory = path === '.' ? '' : path.replace(/^\/+/, '').replace(/\/+$/, '')
+
+	onProgress?.(`Listing directory "${directory || '/'}" in ${project}/${repository}...`)
+
+	const resolved = await resolveRef(project, repository, ref, config)
+
+	const apiPath = `rest/api/1.0/projects/${project}/repos/${repository}/browse${directory ? `/${directory}` : ''}?at=${resolved.commit}&limit=${limit}&start=${offset}`
+
+	const response = await fetchFromBitbucketAPI<BitbucketBrowseResponse>(apiPath, {}, config)
+
+	if (!response.ok || !response.data) {
+		throw new Error(
+			`Failed to list directory: ${response.status} ${response.statusText || 'Unknown error'}`,
+		)
+	}
+
+	if (!response.data.children) {
+		throw new Error(`"${directory}" is a file, not a directory. Use read_file to read it.`)
+	}
+
+	const { values, isLastPage, nextPageStart } = response.data.children
+
+	// Child paths are relative to the listed directory; directories get a trailing slash
+	const entries: DirectoryEntry[] = values.map((item) => {
+		const name = item.path.components.join('/')
+		return item.type === 'FILE' ? { name, size: item.size } : { name: `${name}/` }
+	})
+
+	return {
+		path: `/${project}/${repository}/${directory ? `${directory}/` : ''}`,
+		entries,
+		ref: resolved.ref,
+		commit: resolved.commit,
+		hasMore: !isLastPage,
+		nextOffset: isLastPage ? undefined : nextPageStart,
+	}
+}
@@ -1,7 +1,11 @@
+import { DEADLINE_WARNING, pastDeadline } from '../../shared/timeouts'
 import { type BitbucketConfig, fetchFromBitbucketAPI } from '../api-client'
+import { listProjects as listCloudProjects } from '../cloud/list_projects'
 
 export type ListProjectsArgs = {
 	pattern?: string
+	name?: string
+	permission?: 'PROJECT_READ' | 'PROJECT_WRITE' | 'PROJECT_ADMIN'
 	limit?: number
 	offset?: number
 }
@@ -12,10 +16,12 @@ export const toolDefinition = {
 
 PARAMETERS:
 - pattern: Optional regex pattern to match project names/keys/descriptions (optional)
+- name: Optional project name filter applied by the server, faster than pattern (optional)
+- permission: Only projects you have this permission on: PROJECT_READ, PROJECT_WRITE or PROJECT_ADMIN (optional)
 - limit: Maximum number of results (default: 30)
 - offset: Number of results to skip (default: 0)
 
-Returns list of projects with metadata.`,
+Returns list of projects with metadata. On Bitbucket Cloud each workspace includes its repository count; totalCount is the number of matching projects, included once the listing reached its last page.`,
 	inputSchema: {
 		type: 'object',
 		properties: {
@@ -23,6 +29,15 @@ Returns list of projects with metadata.`,
 				type: 'string',
 				description: 'Optional regex pattern to filter projects',
 			},
+			name: {
+				type: 'string',
+				description: 'Optional project name filter applied by the server',
+			},
+			permission: {
+				type: 'string',
+				enum: ['PROJECT_READ', 'PROJECT_WRITE', 'PROJECT_ADMIN'],
+				description: 'Only return projects you have this permission on',
+			},
 			limit: {
 				type: 'number',
 				description: 'Maximum number of results (default: 30)',
@@ -42,11 +57,14 @@ export type ProjectResult = {
 	description: string | null
 	isPublic: boolean
 	type: string
+	repositoryCount?: number
 }
 
 export type ListProjectsResult = {
 	projects: ProjectResult[]
-	totalCount: number
+	totalCount?: number
+	hasMore: boolean
+	warning?: string
 }
 
 interface BitbucketProject {
@@ -70,63 +88,86 @@ interface BitbucketPaginatedResponse<T> {
 	nextPageStart?: number
 }
 
+const PAGE_LIMIT = 100
+
+function buildMatcher(pattern: string): (project: BitbucketProject) => boolean {
+	try {
+		const regex = new RegExp(pattern, 'i')
+		return (project) =>
+			regex.test(project.name) ||
+			regex.test(project.key) ||
+			(project.description !== undefined && regex.test(project.description))
+	} catch {
+		// If regex is invalid, fall back to case-insensitive substring match
+		const lowerPattern = pattern.toLowerCase()
+		return (project) =>
+			project.name.toLowerCase().includes(lowerPattern) ||
+			project.key.toLowerCase().includes(lowerPattern) ||
+			(project.description !== undefined &&
+				project.description.toLowerCase().includes(lowerPattern))
+	}
+}
+
 export async function listProjects(
 	args: ListProjectsArgs,
 	config: BitbucketConfig,
 	onProgress?: (message: string) => void,
 ): Promise<ListProjectsResult> {
-	const { pattern, limit = 30, offset = 0 } = args
-
-	// Validate that offset is divisible by limit for clean pagination
-	if (offset % limit !== 0) {
-		throw new Error(
-			`offset (${offset}) must be divisible by limit (${limit}) for pagination. Try offset values like 0, ${limit}, ${limit * 2}, etc.`,
-		)
+	if (config.deployment === 'cloud') {
+		return listCloudProjects(args, config, onProgress)
 	}
 
+	const { pattern, name, permission, limit = 30, offset = 0 } = args
+
 	onProgress?.(`Fetching projects${pattern ? ` matching "${pattern}"` : ''}...`)
 
-	// Build the API path - Bitbucket Server API
-	const apiPath = `rest/api/1.0/projects?limit=${limit}&start=${offset}`
+	// Let the server apply the name and permission filters
+	const params = new URLSearchParams()
+	if (name) {
+		params.set('name', name)
+	}
+	if (permission) {
+		params.set('permission', permission)
+	}
 
-	const response = await fetchFromBitbucketAPI<BitbucketPaginatedResponse<BitbucketProject>>(
-		apiPath,
-		{},
-		config,
-	)
+	const query = params.toString()
+	const apiPath = `rest/api/1.0/projects${query ? `?${query}` : ''}`
+
+	// Page through the projects only until the requested page is filled, plus
+	// one more match to tell whether another page follows
+	const matches = pattern ? buildMatcher(pattern) : () => true
+	const wanted = offset + limit
+	const projects: BitbucketProject[] = []
+	let start = 0
+	let isLastPage = false
+	let warning: string | undefined
+
+	while (!isLastPage && projects.length <= wanted) {
+		if (start > 0 && pastDeadline(config)) {
+			warning = DEADLINE_WARNING
+			break
+		}
 
-	if (!response.ok || !response.data) {
-		throw new Error(
-			`Failed to fetch projects: ${response.status} ${response.statusText || 'Unknown error'}`,
+		const response = await fetchFromBitbucketAPI<BitbucketPaginatedResponse<BitbucketProject>>(
+			`${apiPath}${query ? '&' : '?'}limit=${PAGE_LIMIT}&start=${start}`,
+			{},
+			config,
 		)
-	}
 
-	let projects = response.data.values
-
-	// Apply pattern filter client-side to search both name and description
-	if (pattern) {
-		try {
-			const regex = new RegExp(pattern, 'i')
-			projects = projects.filter(
-				(project) =>
-					regex.test(project.name) ||
-					regex.test(project.key) ||
-					(project.description && regex.test(project.description)),
-			)
-		} catch {
-			// If regex is invalid, fall back to case-insensitive substring match
-			const lowerPattern = pattern.toLowerCase()
-			projects = projects.filter(
-				(project) =>
-					project.name.toLowerCase().includes(lowerPattern) ||
-					project.key.toLowerCase().includes(lowerPattern) ||
-					(project.description && project.description.toLowerCase().includes(lowerPattern)),
+		if (!response.ok || !response.data) {
+			throw new Error(
+				`Failed to fetch projects: ${response.status} ${response.statusText || 'Unknown error'}`,
 			)
 		}
+
+		projects.push(...response.data.values.filter(matches))
+		onProgress?.(`Found ${projects.length} projects...`)
+
+		isLastPage = response.data.isLastPage
+		start = response.data.nextPageStart ?? start + response.data.values.length
 	}
 
-	// Transform to our result format
-	const results: ProjectResult[] = projects.map((project) => ({
+	const results: ProjectResult[] = projects.slice(offset, wanted).map((project) => ({
 		key: project.key,
 		name: project.name,
 		description: project.description || null,
@@ -136,6 +177,8 @@ export async function listProjects(
 
 	return {
 		projects: results,
-		totalCount: response.data.size || results.length,
+		totalCount: isLastPage ? projects.length : undefined,
+		hasMore: !isLastPage || projects.length > wanted,
+		warning,
 	}
 }
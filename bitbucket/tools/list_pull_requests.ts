@@ -0,0 +1,199 @@
+import { type BitbucketConfig, fetchFromBitbucketAPI } from '../api-client'
+import { requireServer } from '../config'
+
+export type ListPullRequestsArgs = {
+	project: string
+	repository: string
+	state?: 'OPEN' | 'MERGED' | 'DECLINED' | 'ALL'
+	author?: string
+	targetBranch?: string
+	limit?: number
+	offset?: number
+}
+
+export const toolDefinition = {
+	name: 'list_pull_requests',
+	description: `List pull requests in a Bitbucket repository, newest first.
+
+PARAMETERS:
+- project: The Bitbucket project key (required)
+- repository: The repository slug (required)
+- state: OPEN, MERGED, DECLINED or ALL (default: OPEN)
+- author: Only pull requests opened by this username (optional)
+- targetBranch: Only pull requests into this branch, e.g. "main" (optional)
+- limit: Maximum results (default: 25)
+- offset: Number of results to skip; use nextOffset from the previous page (default: 0)
+
+Returns pull requests with title, state, author, source and target branches and dates.
+Use get_pull_request to read one in full.`,
+	inputSchema: {
+		type: 'object',
+		properties: {
+			project: {
+				type: 'string',
+				description: 'The Bitbucket project key',
+			},
+			repository: {
+				type: 'string',
+				description: 'The repository slug',
+			},
+			state: {
+				type: 'string',
+				enum: ['OPEN', 'MERGED', 'DECLINED', 'ALL'],
+				description: 'Pull request state (default: OPEN)',
+			},
+			author: {
+				type: 'string',
+				description: 'Only pull requests opened by this username',
+			},
+			targetBranch: {
+				type: 'string',
+				description: 'Only pull requests into this branch (e.g., "main")',
+			},
+			limit: {
+				type: 'number',
+				description: 'Maximum number of results (default: 25)',
+			},
+			offset: {
+				type: 'number',
+				description: 'Number of results to skip (default: 0)',
+			},
+		},
+		required: ['project', 'repository'],
+	},
+} as const
+
+export type PullRequestSummary = {
+	id: number
+	title: string
+	state: string
+	author: string
+	sourceBranch: string
+	targetBranch: string
+	createdDate: string
+	updatedDate: string
+	url?: string
+}
+
+export type ListPullRequestsResult = {
+	pullRequests: PullRequestSummary[]
+	hasMore: boolean
+	nextOffset?: number
+}
+
+export interface BitbucketUser {
+	name: string
+	displayName: string
+	emailAddress?: string
+}
+
+export interface BitbucketPullRequestRef {
+	id: string
+	displayId: string
+	latestCommit: string
+}
+
+export interface BitbucketPullRequest {
+	id: number
+	title: string
+	description?: string
+	state: string
+	createdDate: number
+	updatedDate: number
+	closedDate?: number
+	fromRef: BitbucketPullRequestRef
+	toRef: BitbucketPullRequestRef
+	author: {
+		user: BitbucketUser
+		approved: boolean
+		status: string
+	}
+	links?: {
+		self?: Array<{ href: string }>
+	}
+}
+
+interface BitbucketPaginatedResponse<T> {
+	values: T[]
+	size: number
+	isLastPage: boolean
+	start: number
+	limit: number
+	nextPageStart?: number
+}
+
+export function summarizePullRequest(pullRequest: BitbucketPullRequest): PullRequestSummary {
+	return {
+		id: pullRequest.id,
+		title: pullRequest.title,
+		state: pullRequest.state,
+		author: pullRequest.author.user.displayName,
+		sourceBranch: pullRequest.fromRef.displayId,
+		targetBranch: pullRequest.toRef.displayId,
+		createdDate: new Date(pullRequest.createdDate).toISOString(),
+		updatedDate: new Date(pullRequest.updatedDate).toISOString(),
+		url: pullRequest.links?.self?.[0]?.href,
+	}
+}
+
+export async function listPullRequests(
+	args: ListPullRequestsArgs,
+	config: BitbucketConfig,
+	onProgress?: (message: string) => void,
+): Promise<ListPullRequestsResult> {
+	requireServer(config, toolDefinition.name)
+
+	const {
+		project,
+		repository,
+		state = 'OPEN',
+		author,
+		targetBranch,
+		limit = 25,
+		offset = 0,
+	} = args
+
+	onProgress?.(`Listing ${state.toLowerCase()} pull requests in ${project}/${repository}...`)
+
+	const params = new URLSearchParams({
+		state,
+		order: 'NEWEST',
+		start: String(offset),
+		limit: String(limit),
+	})
+
+	if (targetBranch) {
+		params.set('direction', 'INCOMING')
+		params.set(
+			'at',
+			targetBranch.startsWith('refs/') ? targetBranch : `refs/heads/${targetBranch}`,
+		)
+	}
+
+	if (author) {
+		params.set('role.1', 'AUTHOR')
+		params.set('username.1', author)
+	}
+
+	const apiPath = `rest/api/1.0/projects/${project}/repos/${repository}/pull-requests?${params}`
+
+	const response = await fetchFromBitbucketAPI<BitbucketPaginatedResponse<BitbucketPullRequest>>(
+		apiPath,
+		{},
+		config,
+	)
+
+	if (!response.ok || !response.data) {
+		throw new Error(
+			`Failed to list pull requests: ${response.status} ${response.statusText || 'Unknown error'}`,
+		)
+	}
+
+	const { values, isLastPage, nextPageStart } = response.data
+
+	return {
+		pullRequests: values.map(summarizePullRequest),
+		hasMore: !isLastPage,
+		nextOffset: isLastPage ? undefined : nextPageStart,
+	}
+}
@@ -0,0 +1,138 @@
+import { type BitbucketConfig, fetchFromBitbucketAPI } from '../api-client'
+import { requireServer } from '../config'
+import { fetchCommitDates } from '../refs'
+
+export type ListTagsArgs = {
+	project: string
+	repository: string
+	filter?: string
+	sort?: 'recent' | 'name'
+	limit?: number
+	offset?: number
+}
+
+export const toolDefinition = {
+	name: 'list_tags',
+	description: `List tags in a Bitbucket repository.
+
+PARAMETERS:
+- project: The Bitbucket project key (required)
+- repository: The repository slug (required)
+- filter: Only tags whose name contains this text (optional)
+- sort: "recent" for most recently created first, or "name" (default: recent)
+- limit: Maximum results (default: 25)
+- offset: Number of results to skip; use nextOffset from the previous page (default: 0)
+
+Returns tags with the commit SHA and date they point at.
+Use the tag names as the ref argument of the other tools.`,
+	inputSchema: {
+		type: 'object',
+		properties: {
+			project: {
+				type: 'string',
+				description: 'The Bitbucket project key',
+			},
+			repository: {
+				type: 'string',
+				description: 'The repository slug',
+			},
+			filter: {
+				type: 'string',
+				description: 'Only tags whose name contains this text',
+			},
+			sort: {
+				type: 'string',
+				enum: ['recent', 'name'],
+				description: 'Most recently created first, or alphabetical (default: recent)',
+			},
+			limit: {
+				type: 'number',
+				description: 'Maximum number of results (default: 25)',
+			},
+			offset: {
+				type: 'number',
+				description: 'Number of results to skip (default: 0)',
+			},
+		},
+		required: ['project', 'repository'],
+	},
+} as const
+
+export type TagInfo = {
+	name: string
+	commit: string
+	date?: string
+}
+
+export type ListTagsResult = {
+	tags: TagInfo[]
+	hasMore: boolean
+	nextOffset?: number
+}
+
+interface BitbucketTag {
+	id: string
+	displayId: string
+	latestCommit: string
+}
+
+interface BitbucketPaginatedResponse<T> {
+	values: T[]
+	size: number
+	isLastPage: boolean
+	nextPageStart?: number
+}
+
+export async function listTags(
+	args: ListTagsArgs,
+	config: BitbucketConfig,
+	onProgress?: (message: string) => void,
+): Promise<ListTagsResult> {
+	requireServer(config, toolDefinition.name)
+
+	const { project, repository, filter, sort = 'recent', limit = 25, offset = 0 } = args
+
+	onProgress?.(`Listing tags in ${project}/${repository}...`)
+
+	const params = new URLSearchParams({
+		orderBy: sort === 'recent' ? 'MODIFICATION' : 'ALPHABETICAL',
+		start: String(offset),
+		limit: String(limit),
+	})
+
+	if (filter) {
+		params.set('filterText', filter)
+	}
+
+	const response = await fetchFromBitbucketAPI<BitbucketPaginatedResponse<BitbucketTag>>(
+		`rest/api/1.0/projects/${project}/repos/${repository}/tags?${params}`,
+		{},
+		config,
+	)
+
+	if (!response.ok || !response.data) {
+		throw new Error(
+			`Failed to list tags: ${response.status} ${response.statusText || 'Unknown error'}`,
+		)
+	}
+
+	const { values, isLastPage, nextPageStart } = response.data
+
+	// Tags carry no dates of their own, so look up the commits they point at
+	const dates = await fetchCommitDates(
+		project,
+		repository,
+		values.map((tag) => tag.latestCommit),
+		config,
+	)
+
+	return {
+		tags: values.map((tag, index) => ({
+			name: tag.displayId,
+			commit: tag.latestCommit,
+			date: dates[index],
+		})),
+		hasMore: !isLastPage,
+		nextOffset: isLastPage ? undefined : nextPageStart,
+	}
+}
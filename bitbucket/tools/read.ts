@@ -1,10 +1,13 @@
 import { type BitbucketConfig, fetchFromBitbucketAPI } from '../api-client'
+import { readFile as readCloudFile } from '../cloud/read'
+import { resolveRef } from '../refs'
 
 export type BitbucketReadArgs = {
 	project: string
 	repository: string
 	path: string
 	read_range?: [number, number]
+	ref?: string
 }
 
 export const toolDefinition = {
@@ -16,8 +19,9 @@ PARAMETERS:
 - repository: The repository slug (required)
 - path: The file path within the repository (required)
 - read_range: Optional [startLine, endLine] to read only a portion of the file
+- ref: Optional branch, tag or commit SHA to read from (default: default branch)
 
-Returns file contents with line numbers.`,
+Returns file contents with line numbers and the commit they were read at.`,
 	inputSchema: {
 		type: 'object',
 		properties: {
@@ -40,6 +44,10 @@ Returns file contents with line numbers.`,
 				minItems: 2,
 				maxItems: 2,
 			},
+			ref: {
+				type: 'string',
+				description: 'Branch, tag or commit SHA to read from (default: default branch)',
+			},
 		},
 		required: ['project', 'repository', 'path'],
 	},
@@ -48,18 +56,15 @@ Returns file contents with line numbers.`,
 export type BitbucketReadResult = {
 	absolutePath: string
 	content: string
+	ref: string
+	commit: string
 }
 
-export async function readFile(
-	args: BitbucketReadArgs,
-	config: BitbucketConfig,
-	onProgress?: (message: string) => void,
-): Promise<BitbucketReadResult> {
-	const { project, repository, path, read_range } = args
-
-	onProgress?.(`Reading file "${path}" from ${project}/${repository}...`)
-
-	// Convert path to relative path within the repository
+/**
+ * Make a path relative to the repository root, accepting file:// paths and
+ * the /PROJECT/repository/ prefix the tools put on the paths they return.
+ */
+export function toRelativePath(path: string, project: string, repository: string): string {
 	let relativePath = path
 
 	// Remove file:// prefix if present
@@ -78,21 +83,13 @@ export async function readFile(
 		relativePath = relativePath.slice(1)
 	}
 
-	// Use Bitbucket Server API to read file contents
-	const bitbucketPath = `rest/api/1.0/projects/${project}/repos/${repository}/raw/${relativePath}?at=HEAD`
-
-	const response = await fetchFromBitbucketAPI<string>(bitbucketPath, {}, config)
-
-	if (!response.ok) {
-		throw new Error(
-			`Failed to read file: ${response.status} ${response.statusText || 'Unknown error'}`,
-		)
-	}
-
-	// Bitbucket returns raw file content as text
-	const content = response.text || ''
+	return relativePath
+}
 
-	// Split content into lines and add line numbers
+/**
+ * Number the lines of a file, keeping only `read_range` when it is given.
+ */
+export function numberLines(content: string, read_range?: [number, number]): string {
 	const lines = content.split('\n')
 
 	// Apply read_range if specified
@@ -104,17 +101,47 @@ export async function readFile(
 		endLine = Math.min(lines.length, read_range[1])
 	}
 
-	// Create line-numbered content
-	const numberedLines = lines
+	return lines
 		.slice(startLine - 1, endLine)
 		.map((line, idx) => `${startLine + idx}: ${line}`)
 		.join('\n')
+}
+
+export async function readFile(
+	args: BitbucketReadArgs,
+	config: BitbucketConfig,
+	onProgress?: (message: string) => void,
+): Promise<BitbucketReadResult> {
+	if (config.deployment === 'cloud') {
+		return readCloudFile(args, config, onProgress)
+	}
+
+	const { project, repository, path, read_range, ref } = args
+
+	onProgress?.(`Reading file "${path}" from ${project}/${repository}...`)
+
+	const relativePath = toRelativePath(path, project, repository)
+
+	const resolved = await resolveRef(project, repository, ref, config)
 
-	// Create file path
-	const fileUri = `/${project}/${repository}/${relativePath}`
+	// Read file contents at the resolved commit
+	const response = await fetchFromBitbucketAPI<string>(
+		`rest/api/1.0/projects/${project}/repos/${repository}/raw/${relativePath}?at=${resolved.commit}`,
+		{},
+		config,
+	)
+
+	if (!response.ok) {
+		throw new Error(
+			`Failed to read file: ${response.status} ${response.statusText || 'Unknown error'}`,
+		)
+	}
 
+	// Bitbucket returns raw file content as text
 	return {
-		absolutePath: fileUri,
-		content: numberedLines,
+		absolutePath: `/${project}/${repository}/${relativePath}`,
+		content: numberLines(response.text || '', read_range),
+		ref: resolved.ref,
+		commit: resolved.commit,
 	}
 }
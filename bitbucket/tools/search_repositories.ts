@@ -1,4 +1,5 @@
 import { type BitbucketConfig, fetchFromBitbucketAPI } from '../api-client'
+import { searchRepositories as searchCloudRepositories } from '../cloud/search_repositories'
 
 export type SearchRepositoriesArgs = {
 	query: string
@@ -31,7 +32,7 @@ Returns list of repositories with metadata.`,
 } as const
 
 export type Repository = {
-	id: number
+	id?: number
 	name: string
 	slug: string
 	description?: string
@@ -39,7 +40,7 @@ export type Repository = {
 	archived: boolean
 	project: {
 		key: string
-		id: number
+		id?: number
 		name: string
 		description?: string
 		public: boolean
@@ -78,6 +79,10 @@ export async function searchRepositories(
 	config: BitbucketConfig,
 	onProgress?: (message: string) => void,
 ): Promise<SearchRepositoriesResult> {
+	if (config.deployment === 'cloud') {
+		return searchCloudRepositories(args, config, onProgress)
+	}
+
 	const { query, limit = 30 } = args
 
 	onProgress?.(`Searching for repositories matching "${query}"...`)
@@ -93,7 +98,7 @@ export async function searchRepositories(
 		},
 	}
 
-	// Make POST request to REST search endpoint
+	// Make POST request to REST search endpoint; searches are read-only, so safe to retry
 	const response = await fetchFromBitbucketAPI<SearchRepositoriesResponse>(
 		'rest/search/latest/search?avatarSize=64',
 		{
@@ -102,6 +107,7 @@ export async function searchRepositories(
 				'Content-Type': 'application/json',
 			},
 			body: requestBody,
+			retry: true,
 		},
 		config,
 	)
@@ -0,0 +1,89 @@
+import { afterEach, describe, expect, test } from 'bun:test'
+
+import { createResponseCache } from '../shared/cache'
+import { fetchFromGitLabAPI, type GitLabConfig } from './api-client'
+import { ENDPOINT_TTLS } from './config'
+
+const realFetch = globalThis.fetch
+
+// Serve a branch list at the current version, answering 304 when the client
+// already holds it
+function serveBranches(version: () => number): Array<string | null> {
+	const conditions: Array<string | null> = []
+	globalThis.fetch = (async (_input: string | URL | Request, init?: RequestInit) => {
+		const ifNoneMatch = new Headers(init?.headers).get('if-none-match')
+		conditions.push(ifNoneMatch)
+
+		const etag = `"v${version()}"`
+		if (ifNoneMatch === etag) {
+			return new Response(null, { status: 304, headers: { etag } })
+		}
+
+		return new Response(JSON.stringify([{ name: `main-v${version()}` }]), {
+			headers: { 'content-type': 'application/json', etag },
+		})
+	}) as typeof fetch
+	return conditions
+}
+
+function configWithCache(): GitLabConfig {
+	return {
+		baseURL: 'https://gitlab.example.com',
+		auth: { type: 'private-token', token: 'token' },
+		cache: createResponseCache(ENDPOINT_TTLS),
+	}
+}
+
+function expire(config: GitLabConfig): void {
+	for (const entry of config.cache?.entries.values() ?? []) {
+		entry.expiresAt = Date.now() - 1
+	}
+}
+
+afterEach(() => {
+	globalThis.fetch = realFetch
+})
+
+describe('fetchFromGitLabAPI caching', () => {
+	test('serves fresh entries without asking the server', async () => {
+		const conditions = serveBranches(() => 1)
+		const config = configWithCache()
+
+		await fetchFromGitLabAPI('projects/1/repository/branches', {}, config)
+		const response = await fetchFromGitLabAPI('projects/1/repository/branches', {}, config)
+
+		expect(response.data).toEqual([{ name: 'main-v1' }])
+		expect(conditions).toEqual([null])
+	})
+
+	test('revalidates stale entries with their ETag', async () => {
+		let version = 1
+		const conditions = serveBranches(() => version)
+		const config = configWithCache()
+
+		await fetchFromGitLabAPI('projects/1/repository/branches', {}, config)
+		expire(config)
+		const unchanged = await fetchFromGitLabAPI('projects/1/repository/branches', {}, config)
+
+		version = 2
+		expire(config)
+		const changed = await fetchFromGitLabAPI('projects/1/repository/branches', {}, config)
+
+		expect(unchanged.data).toEqual([{ name: 'main-v1' }])
+		expect(changed.data).toEqual([{ name: 'main-v2' }])
+		expect(conditions).toEqual([null, '"v1"', '"v1"'])
+	})
+
+	test('revalidates fresh entries when the call asks for fresh results', async () => {
+		let version = 1
+		const conditions = serveBranches(() => version)
+		const config = configWithCache()
+
+		await fetchFromGitLabAPI('projects/1/repository/branches', {}, config)
+		version = 2
+		const response = await fetchFromGitLabAPI('projects/1/repository/branches', {}, { ...config, fresh: true })
+
+		expect(response.data).toEqual([{ name: 'main-v2' }])
+		expect(conditions).toEqual([null, '"v1"'])
+	})
+})
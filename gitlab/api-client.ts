@@ -1,6 +1,43 @@
+import {
+	cacheKey,
+	type CachedResponse,
+	getCachedResponse,
+	isFresh,
+	renewCachedResponse,
+	type ResponseCache,
+	storeResponse,
+} from '../shared/cache'
+import { type NetworkConfig, networkOptions } from '../shared/network'
+import { fetchWithRetry, type RateLimiter, type ThrottleStats } from '../shared/rate-limit'
+
+/**
+ * How requests authenticate: a personal, project or group access token, an
+ * OAuth access token, or a CI/CD job token. Job tokens can only reach the
+ * endpoints GitLab allows for CI jobs.
+ */
+export type GitLabAuth =
+	| { type: 'private-token'; token: string }
+	| { type: 'oauth'; token: string }
+	| { type: 'job-token'; token: string }
+
 export interface GitLabConfig {
 	baseURL: string
-	token: string
+	/** Unset on a shared server whose clients each send their own token */
+	auth?: GitLabAuth
+	/** Proxy and TLS settings; fetch defaults when unset */
+	network?: NetworkConfig
+	/** Client-side rate limit and retry policy shared by all calls */
+	rateLimiter?: RateLimiter
+	/** Collects the throttling of the current tool call */
+	throttle?: ThrottleStats
+	/** Cache for GET responses; every request goes to the server when unset */
+	cache?: ResponseCache
+	/** Revalidate cached responses for the current tool call instead of reusing them */
+	fresh?: boolean
+	/** Aborts every request of the current tool call */
+	signal?: AbortSignal
+	/** Epoch milliseconds after which page walks stop and return partial results */
+	deadline?: number
 }
 
 export interface FetchOptions {
@@ -8,6 +45,10 @@ export interface FetchOptions {
 	headers?: Record<string, string>
 	body?: any
 	signal?: AbortSignal
+	/** Retry busy responses; defaults to every method but POST */
+	retry?: boolean
+	/** Set to false to skip the response cache for this request */
+	cache?: boolean
 }
 
 export interface GitLabResponse<T = any> {
@@ -16,6 +57,51 @@ export interface GitLabResponse<T = any> {
 	statusText: string
 	text?: string
 	data?: T
+	headers?: Headers
+}
+
+function authHeaders(auth: GitLabAuth): Record<string, string> {
+	switch (auth.type) {
+		case 'oauth':
+			return { Authorization: `Bearer ${auth.token}` }
+		case 'job-token':
+			return { 'JOB-TOKEN': auth.token }
+		default:
+			return { 'PRIVATE-TOKEN': auth.token }
+	}
+}
+
+function parseResponse<T>(
+	status: number,
+	statusText: string,
+	text: string,
+	headers: Headers,
+): GitLabResponse<T> {
+	const ok = status >= 200 && status < 300
+	const isJson = headers.get('content-type')?.includes('application/json')
+
+	let data: T | undefined
+
+	if (ok && isJson && text) {
+		try {
+			data = JSON.parse(text) as T
+		} catch {
+			// If JSON parsing fails, leave data undefined
+		}
+	}
+
+	return {
+		ok,
+		status,
+		statusText,
+		text,
+		data,
+		headers,
+	}
+}
+
+function fromCache<T>(entry: CachedResponse): GitLabResponse<T> {
+	return parseResponse<T>(entry.status, entry.statusText, entry.text, new Headers(entry.headers))
 }
 
 export async function fetchFromGitLabAPI<T = any>(
@@ -23,21 +109,29 @@ export async function fetchFromGitLabAPI<T = any>(
 	options: FetchOptions = {},
 	config: GitLabConfig,
 ): Promise<GitLabResponse<T>> {
-	const { method = 'GET', headers = {}, body, signal } = options
+	const {
+		method = 'GET',
+		headers = {},
+		body,
+		signal = config.signal,
+		retry = method !== 'POST',
+		cache: useCache = true,
+	} = options
 
 	// GitLab API v4 endpoint
 	const apiBase = `${config.baseURL.replace(/\/$/, '')}/api/v4`
 	const url = path.startsWith('http') ? path : `${apiBase}/${path.replace(/^\//, '')}`
 
 	const requestHeaders: Record<string, string> = {
-		'PRIVATE-TOKEN': config.token,
+		...(config.auth && authHeaders(config.auth)),
 		...headers,
 	}
 
-	const requestInit: RequestInit = {
+	const requestInit: BunFetchRequestInit = {
 		method,
 		headers: requestHeaders,
 		signal,
+		...networkOptions(url, config.network),
 	}
 
 	if (body) {
@@ -47,36 +141,52 @@ export async function fetchFromGitLabAPI<T = any>(
 		}
 	}
 
+	const cache = method === 'GET' && useCache ? config.cache : undefined
+	const key = cache ? cacheKey(url, requestHeaders) : undefined
+	const cached = cache && key ? await getCachedResponse(cache, key) : undefined
+
+	// A fresh read still reuses responses pinned to a commit, which cannot change
+	if (cached && (cached.immutable || (!config.fresh && isFresh(cached)))) {
+		return fromCache<T>(cached)
+	}
+
+	// Ask the server whether the stale copy is still current
+	if (cached?.etag) {
+		requestHeaders['If-None-Match'] = cached.etag
+	}
+
 	try {
-		const response = await fetch(url, requestInit)
-		const contentType = response.headers.get('content-type')
-		const isJson = contentType?.includes('application/json')
-
-		let text: string | undefined
-		let data: T | undefined
-
-		const rawText = await response.text()
-		text = rawText
-
-		if (response.ok) {
-			if (isJson && rawText) {
-				try {
-					data = JSON.parse(rawText) as T
-				} catch {
-					// If JSON parsing fails, leave data undefined
-				}
-			}
+		const response = await fetchWithRetry(
+			url,
+			requestInit,
+			config.rateLimiter,
+			config.throttle,
+			retry,
+		)
+
+		if (response.status === 304 && cache && key && cached) {
+			return fromCache<T>(await renewCachedResponse(cache, key, url, cached))
 		}
 
-		return {
-			ok: response.ok,
-			status: response.status,
-			statusText: response.statusText,
-			text,
-			data,
+		const text = await response.text()
+
+		if (
+			cache &&
+			key &&
+			response.status === 200 &&
+			!response.headers.get('cache-control')?.includes('no-store')
+		) {
+			await storeResponse(cache, key, url, {
+				status: response.status,
+				statusText: response.statusText,
+				text,
+				headers: [...response.headers],
+			})
 		}
+
+		return parseResponse<T>(response.status, response.statusText, text, response.headers)
 	} catch (error) {
-		if (error instanceof Error && error.name === 'AbortError') {
+		if (signal?.aborted || (error instanceof Error && error.name === 'AbortError')) {
 			throw error
 		}
 
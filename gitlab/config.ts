@@ -0,0 +1,98 @@
+import { type EndpointTTL, loadResponseCacheFromEnv } from '../shared/cache'
+import { loadNetworkConfigFromEnv } from '../shared/network'
+import { createThrottleStats, loadRateLimiterFromEnv } from '../shared/rate-limit'
+import type { ToolTimeouts } from '../shared/timeouts'
+import type { GitLabAuth, GitLabConfig } from './api-client'
+
+// Merge requests and refs move often; project and group lookups rarely do
+export const ENDPOINT_TTLS: EndpointTTL[] = [
+	{ kind: 'merge-requests', pattern: /\/merge_requests/, ttlMs: 30_000 },
+	{ kind: 'refs', pattern: /\/repository\/(branches|tags|commits|compare)/, ttlMs: 30_000 },
+	{ kind: 'search', pattern: /\/search\?/, ttlMs: 60_000 },
+	{ kind: 'files', pattern: /\/repository\/(files|tree|blobs)/, ttlMs: 60_000 },
+	{ kind: 'projects', pattern: /\/(projects|groups)(\/[^/?]+)?(\?|$)/, ttlMs: 300_000 },
+]
+
+// Tools that walk many pages get longer than single lookups
+export const TOOL_TIMEOUTS_MS: ToolTimeouts = {
+	glob_files: 120_000,
+	search_code: 60_000,
+	search_code_global: 90_000,
+	list_projects: 60_000,
+	file_history: 90_000,
+	get_merge_request: 60_000,
+}
+
+export const AUTH_TYPES = ['private-token', 'oauth', 'job-token'] as const
+
+export function isAuthType(value: string): value is GitLabAuth['type'] {
+	return (AUTH_TYPES as readonly string[]).includes(value)
+}
+
+/**
+ * Read GITLAB_AUTH_TYPE: "private-token" (the default), "oauth" or
+ * "job-token".
+ */
+export function loadAuthTypeFromEnv(): GitLabAuth['type'] {
+	const authType = process.env.GITLAB_AUTH_TYPE?.toLowerCase() || 'private-token'
+
+	if (!isAuthType(authType)) {
+		console.error(
+			`Error: GITLAB_AUTH_TYPE must be one of ${AUTH_TYPES.map((type) => `"${type}"`).join(', ')}, got "${process.env.GITLAB_AUTH_TYPE}"`,
+		)
+		process.exit(1)
+	}
+
+	return authType
+}
+
+/**
+ * Read the credentials for the GITLAB_AUTH_TYPE. Private and OAuth tokens
+ * come from GITLAB_ACCESS_TOKEN; job tokens come from GITLAB_JOB_TOKEN,
+ * falling back to CI_JOB_TOKEN so the tools work unchanged inside a CI job.
+ * Unless `required`, the token does not need to be set.
+ */
+function loadAuthFromEnv(required: boolean): GitLabAuth | undefined {
+	const authType = loadAuthTypeFromEnv()
+
+	if (authType === 'job-token') {
+		const token = process.env.GITLAB_JOB_TOKEN || process.env.CI_JOB_TOKEN
+		if (!token && !required) {
+			return undefined
+		}
+		if (!token) {
+			console.error('Error: GITLAB_JOB_TOKEN (or CI_JOB_TOKEN) must be set for job-token authentication')
+			process.exit(1)
+		}
+
+		return { type: authType, token }
+	}
+
+	const token = process.env.GITLAB_ACCESS_TOKEN
+	if (!token && !required) {
+		return undefined
+	}
+	if (!token) {
+		console.error(`Error: GITLAB_ACCESS_TOKEN must be set for ${authType} authentication`)
+		process.exit(1)
+	}
+
+	return { type: authType, token }
+}
+
+/**
+ * Build the GitLab configuration from environment variables. Prints an error
+ * and exits when required settings are missing, so it is only meant to be
+ * called from entry points. Pass false for `requireAuth` when every client
+ * brings its own token.
+ */
+export function loadConfigFromEnv(requireAuth = true): GitLabConfig {
+	return {
+		baseURL: process.env.GITLAB_INSTANCE_URL || process.env.CI_SERVER_URL || 'https://gitlab.com',
+		auth: loadAuthFromEnv(requireAuth),
+		network: loadNetworkConfigFromEnv('GITLAB'),
+		rateLimiter: loadRateLimiterFromEnv('GITLAB'),
+		throttle: createThrottleStats(),
+		cache: loadResponseCacheFromEnv('GITLAB', ENDPOINT_TTLS),
+	}
+}
@@ -0,0 +1,50 @@
+import { describe, expect, test } from 'bun:test'
+
+import { type GitLabDiff, pageDiffs } from './diff'
+
+function fileDiff(diff: string): GitLabDiff {
+	return {
+		old_path: 'src/counter.lua',
+		new_path: 'src/counter.lua',
+		diff,
+		new_file: false,
+		renamed_file: false,
+		deleted_file: false,
+	}
+}
+
+describe('pageDiffs', () => {
+	test('counts changed lines that look like file headers', () => {
+		const page = pageDiffs(
+			[
+				fileDiff(
+					[
+						'@@ -1,4 +1,4 @@',
+						' local i = 0',
+						'--- the old counter',
+						'-i = i - 1',
+						'+++i',
+						'+i = i + 1',
+						' return i',
+						'\\ No newline at end of file',
+					].join('\n'),
+				),
+			],
+			0,
+			20,
+			60000,
+		)
+
+		expect(page.files).toEqual([
+			{ path: 'src/counter.lua', oldPath: undefined, status: 'modified', additions: 2, deletions: 2 },
+		])
+	})
+
+	test('adds the file header to the rendered diff', () => {
+		const page = pageDiffs([fileDiff('@@ -1 +1 @@\n-a\n+b\n')], 0, 20, 60000)
+
+		expect(page.diffs[0]?.diff).toBe(
+			'--- a/src/counter.lua\n+++ b/src/counter.lua\n@@ -1 +1 @@\n-a\n+b',
+		)
+	})
+})
@@ -0,0 +1,133 @@
+export interface GitLabDiff {
+	old_path: string
+	new_path: string
+	diff: string
+	new_file: boolean
+	renamed_file: boolean
+	deleted_file: boolean
+	too_large?: boolean
+	collapsed?: boolean
+}
+
+export type FileChange = {
+	path: string
+	oldPath?: string
+	status: 'added' | 'deleted' | 'modified' | 'renamed'
+	additions: number
+	deletions: number
+}
+
+export type FileDiff = {
+	path: string
+	diff: string
+	truncated?: boolean
+}
+
+export type DiffPage = {
+	files: FileChange[]
+	diffs: FileDiff[]
+	hasMore: boolean
+	nextDiffOffset?: number
+}
+
+function summarize(diff: GitLabDiff): FileChange {
+	let additions = 0
+	let deletions = 0
+
+	// GitLab's per-file diff has no ---/+++ header, so every +/- line is a
+	// change, even "++i" or "-- comment"; "\ No newline" lines match neither
+	for (const line of diff.diff.split('\n')) {
+		if (line.startsWith('+')) {
+			additions++
+		} else if (line.startsWith('-')) {
+			deletions++
+		}
+	}
+
+	let status: FileChange['status'] = 'modified'
+	if (diff.new_file) {
+		status = 'added'
+	} else if (diff.deleted_file) {
+		status = 'deleted'
+	} else if (diff.renamed_file) {
+		status = 'renamed'
+	}
+
+	return {
+		path: diff.new_path,
+		oldPath: diff.renamed_file ? diff.old_path : undefined,
+		status,
+		additions,
+		deletions,
+	}
+}
+
+/**
+ * GitLab returns each file's hunks without the file header, so add one to
+ * make a complete unified diff.
+ */
+function toUnifiedDiff(diff: GitLabDiff): string {
+	const header = [
+		`--- ${diff.new_file ? '/dev/null' : `a/${diff.old_path}`}`,
+		`+++ ${diff.deleted_file ? '/dev/null' : `b/${diff.new_path}`}`,
+	]
+
+	if (diff.too_large || diff.collapsed) {
+		header.push('Diff too large to display')
+	}
+
+	return [...header, diff.diff.replace(/\n$/, '')].join('\n')
+}
+
+/**
+ * Summarize every changed file and render unified diffs for a page of them.
+ * Rendering stops early once `maxBytes` of diff text has been produced; the
+ * file that crosses the limit is cut off and marked as truncated.
+ */
+export function pageDiffs(
+	allDiffs: GitLabDiff[],
+	offset: number,
+	limit: number,
+	maxBytes: number,
+): DiffPage {
+	const files = allDiffs.map(summarize)
+	const diffs: FileDiff[] = []
+	let bytes = 0
+	let index = offset
+
+	for (; index < Math.min(allDiffs.length, offset + limit); index++) {
+		if (bytes >= maxBytes) {
+			break
+		}
+
+		const text = toUnifiedDiff(allDiffs[index] as GitLabDiff)
+		const remaining = maxBytes - bytes
+		const fileChange = files[index] as FileChange
+
+		if (text.length > remaining) {
+			diffs.push({
+				path: fileChange.path,
+				diff: `${text.slice(0, remaining)}\n... (truncated)`,
+				truncated: true,
+			})
+			bytes = maxBytes
+			index++
+			break
+		}
+
+		diffs.push({
+			path: fileChange.path,
+			diff: text,
+		})
+		bytes += text.length
+	}
+
+	const hasMore = index < allDiffs.length
+
+	return {
+		files,
+		diffs,
+		hasMore,
+		nextDiffOffset: hasMore ? index : undefined,
+	}
+}
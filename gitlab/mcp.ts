@@ -1,141 +1,402 @@
 #!/usr/bin/env bun
+import type { IncomingMessage } from 'node:http'
+
 import { Server } from '@modelcontextprotocol/sdk/server/index.js'
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
-import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js'
+import {
+	CallToolRequestSchema,
+	ListToolsRequestSchema,
+	type ServerNotification,
+} from '@modelcontextprotocol/sdk/types.js'
 
+import { loadHTTPOptionsFromEnv, serveHTTP } from '../shared/http'
+import { verifyTLS } from '../shared/network'
+import { createThrottleStats, withThrottleReport } from '../shared/rate-limit'
+import { startToolTimer } from '../shared/timeouts'
 import type { GitLabConfig } from './api-client'
+import { loadAuthTypeFromEnv, loadConfigFromEnv, TOOL_TIMEOUTS_MS } from './config'
+import { blameFile, type GitLabBlameArgs, toolDefinition as blameFileTool } from './tools/blame'
+import {
+	compareRefs,
+	type GitLabCompareRefsArgs,
+	toolDefinition as compareRefsTool,
+} from './tools/compare_refs'
+import {
+	fileHistory,
+	type GitLabFileHistoryArgs,
+	toolDefinition as fileHistoryTool,
+} from './tools/file_history'
+import {
+	getMergeRequest,
+	type GitLabGetMergeRequestArgs,
+	toolDefinition as getMergeRequestTool,
+} from './tools/get_merge_request'
 import { globFiles, type GitLabGlobArgs, toolDefinition as globFilesTool } from './tools/glob'
+import {
+	listBranches,
+	type GitLabListBranchesArgs,
+	toolDefinition as listBranchesTool,
+} from './tools/list_branches'
 import {
 	listDirectory,
 	type GitLabListDirectoryArgs,
 	toolDefinition as listDirectoryTool,
 } from './tools/list_directory'
+import {
+	listMergeRequests,
+	type GitLabListMergeRequestsArgs,
+	toolDefinition as listMergeRequestsTool,
+} from './tools/list_merge_requests'
 import {
 	listProjects,
 	type GitLabListProjectsArgs,
 	toolDefinition as listProjectsTool,
 } from './tools/list_projects'
+import { listTags, type GitLabListTagsArgs, toolDefinition as listTagsTool } from './tools/list_tags'
 import { readFile, type GitLabReadArgs, toolDefinition as readFileTool } from './tools/read'
 import { searchCode, type GitLabSearchArgs, toolDefinition as searchCodeTool } from './tools/search'
+import {
+	searchCodeGlobal,
+	type GitLabGlobalSearchArgs,
+	toolDefinition as searchCodeGlobalTool,
+} from './tools/search_global'
 
-const GITLAB_INSTANCE_URL = process.env.GITLAB_INSTANCE_URL || 'https://gitlab.com'
-const GITLAB_ACCESS_TOKEN = process.env.GITLAB_ACCESS_TOKEN
+const httpOptions = loadHTTPOptionsFromEnv('GITLAB')
+// Without GITLAB_MCP_CREDENTIALS=server, HTTP clients must send their own
+// token, so the server needs none
+const config = loadConfigFromEnv(httpOptions?.credentials !== 'client')
+const clientAuthType = loadAuthTypeFromEnv()
 
-if (!GITLAB_ACCESS_TOKEN) {
-	console.error('Error: GITLAB_ACCESS_TOKEN must be set')
-	process.exit(1)
+const CLIENT_TOKEN_HEADER = 'x-gitlab-token'
+
+/**
+ * Add the optional `fresh` argument that makes a call revalidate cached
+ * responses instead of reusing them.
+ */
+function withFreshArgument(tool: {
+	name: string
+	description: string
+	inputSchema: { type: 'object'; properties: Record<string, unknown>; required?: readonly string[] }
+}) {
+	// Add the argument to the end of the PARAMETERS list
+	const parameter = '- fresh: Ask the server again instead of reusing recently cached responses (optional; default: false)'
+	const [summary = '', parameters = '', ...rest] = tool.description.split('\n\n')
+
+	return {
+		name: tool.name,
+		description: [summary, `${parameters}\n${parameter}`, ...rest].join('\n\n'),
+		inputSchema: {
+			...tool.inputSchema,
+			properties: {
+				...tool.inputSchema.properties,
+				fresh: {
+					type: 'boolean',
+					description: 'Ask the server again instead of reusing recently cached responses (default: false)',
+				},
+			},
+		},
+	}
 }
 
-const config: GitLabConfig = {
-	baseURL: GITLAB_INSTANCE_URL,
-	token: GITLAB_ACCESS_TOKEN,
+/**
+ * Forward a tool's progress messages as MCP progress notifications, when the
+ * client asked for them by sending a progress token.
+ */
+function progressReporter(
+	progressToken: string | number | undefined,
+	sendNotification: (notification: ServerNotification) => Promise<void>,
+): ((message: string) => void) | undefined {
+	if (progressToken === undefined) {
+		return undefined
+	}
+
+	let progress = 0
+	return (message) => {
+		progress++
+		sendNotification({
+			method: 'notifications/progress',
+			params: { progressToken, progress, message },
+		}).catch(() => {
+			// Progress is advisory; a closed transport must not fail the tool
+		})
+	}
 }
 
-const server = new Server(
-	{
-		name: 'gitlab-server',
-		version: '1.0.0',
-	},
-	{
-		capabilities: {
-			tools: {},
+function createMCPServer(sessionConfig: GitLabConfig): Server {
+	const server = new Server(
+		{
+			name: 'gitlab-server',
+			version: '1.0.0',
 		},
-	},
-)
+		{
+			capabilities: {
+				tools: {},
+			},
+		},
+	)
 
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-	return {
-		tools: [readFileTool, searchCodeTool, listProjectsTool, globFilesTool, listDirectoryTool],
-	}
-})
+	server.setRequestHandler(ListToolsRequestSchema, async () => {
+		return {
+			tools: [
+				readFileTool,
+				searchCodeTool,
+				searchCodeGlobalTool,
+				listProjectsTool,
+				globFilesTool,
+				listDirectoryTool,
+				listMergeRequestsTool,
+				getMergeRequestTool,
+				fileHistoryTool,
+				blameFileTool,
+				compareRefsTool,
+				listBranchesTool,
+				listTagsTool,
+			].map(withFreshArgument),
+		}
+	})
 
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-	try {
-		switch (request.params.name) {
-			case 'read_file': {
-				const args = request.params.arguments as GitLabReadArgs
-				const result = await readFile(args, config)
-				return {
-					content: [
-						{
-							type: 'text',
-							text: JSON.stringify(result, null, 2),
-						},
-					],
+	server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+		const timer = startToolTimer(request.params.name, extra.signal, TOOL_TIMEOUTS_MS)
+
+		// Throttling is reported per call, while the rate limiter itself is shared
+		const callConfig = {
+			...sessionConfig,
+			throttle: createThrottleStats(),
+			signal: timer.signal,
+			deadline: timer.deadline,
+			fresh: request.params.arguments?.fresh === true,
+		}
+		const onProgress = progressReporter(request.params._meta?.progressToken, extra.sendNotification)
+
+		try {
+			switch (request.params.name) {
+				case 'read_file': {
+					const args = request.params.arguments as GitLabReadArgs
+					const result = await readFile(args, callConfig, onProgress)
+					return {
+						content: [
+							{
+								type: 'text',
+								text: JSON.stringify(withThrottleReport(result, callConfig.throttle), null, 2),
+							},
+						],
+					}
 				}
-			}
 
-			case 'search_code': {
-				const args = request.params.arguments as GitLabSearchArgs
-				const result = await searchCode(args, config)
-				return {
-					content: [
-						{
-							type: 'text',
-							text: JSON.stringify(result, null, 2),
-						},
-					],
+				case 'search_code': {
+					const args = request.params.arguments as GitLabSearchArgs
+					const result = await searchCode(args, callConfig, onProgress)
+					return {
+						content: [
+							{
+								type: 'text',
+								text: JSON.stringify(withThrottleReport(result, callConfig.throttle), null, 2),
+							},
+						],
+					}
 				}
-			}
 
-			case 'list_projects': {
-				const args = request.params.arguments as GitLabListProjectsArgs
-				const result = await listProjects(args, config)
-				return {
-					content: [
-						{
-							type: 'text',
-							text: JSON.stringify(result, null, 2),
-						},
-					],
+				case 'search_code_global': {
+					const args = request.params.arguments as GitLabGlobalSearchArgs
+					const result = await searchCodeGlobal(args, callConfig, onProgress)
+					return {
+						content: [
+							{
+								type: 'text',
+								text: JSON.stringify(withThrottleReport(result, callConfig.throttle), null, 2),
+							},
+						],
+					}
 				}
-			}
 
-			case 'glob_files': {
-				const args = request.params.arguments as GitLabGlobArgs
-				const result = await globFiles(args, config)
-				return {
-					content: [
-						{
-							type: 'text',
-							text: JSON.stringify(result, null, 2),
-						},
-					],
+				case 'list_projects': {
+					const args = request.params.arguments as GitLabListProjectsArgs
+					const result = await listProjects(args, callConfig, onProgress)
+					return {
+						content: [
+							{
+								type: 'text',
+								text: JSON.stringify(withThrottleReport(result, callConfig.throttle), null, 2),
+							},
+						],
+					}
 				}
-			}
 
-			case 'list_directory': {
-				const args = request.params.arguments as GitLabListDirectoryArgs
-				const result = await listDirectory(args, config)
-				return {
-					content: [
-						{
-							type: 'text',
-							text: JSON.stringify(result, null, 2),
-						},
-					],
+				case 'glob_files': {
+					const args = request.params.arguments as GitLabGlobArgs
+					const result = await globFiles(args, callConfig, onProgress)
+					return {
+						content: [
+							{
+								type: 'text',
+								text: JSON.stringify(withThrottleReport(result, callConfig.throttle), null, 2),
+							},
+						],
+					}
 				}
+
+				case 'list_directory': {
+					const args = request.params.arguments as GitLabListDirectoryArgs
+					const result = await listDirectory(args, callConfig, onProgress)
+					return {
+						content: [
+							{
+								type: 'text',
+								text: JSON.stringify(withThrottleReport(result, callConfig.throttle), null, 2),
+							},
+						],
+					}
+				}
+
+				case 'list_merge_requests': {
+					const args = request.params.arguments as GitLabListMergeRequestsArgs
+					const result = await listMergeRequests(args, callConfig, onProgress)
+					return {
+						content: [
+							{
+								type: 'text',
+								text: JSON.stringify(withThrottleReport(result, callConfig.throttle), null, 2),
+							},
+						],
+					}
+				}
+
+				case 'get_merge_request': {
+					const args = request.params.arguments as GitLabGetMergeRequestArgs
+					const result = await getMergeRequest(args, callConfig, onProgress)
+					return {
+						content: [
+							{
+								type: 'text',
+								text: JSON.stringify(withThrottleReport(result, callConfig.throttle), null, 2),
+							},
+						],
+					}
+				}
+
+				case 'file_history': {
+					const args = request.params.arguments as GitLabFileHistoryArgs
+					const result = await fileHistory(args, callConfig, onProgress)
+					return {
+						content: [
+							{
+								type: 'text',
+								text: JSON.stringify(withThrottleReport(result, callConfig.throttle), null, 2),
+							},
+						],
+					}
+				}
+
+				case 'blame_file': {
+					const args = request.params.arguments as GitLabBlameArgs
+					const result = await blameFile(args, callConfig, onProgress)
+					return {
+						content: [
+							{
+								type: 'text',
+								text: JSON.stringify(withThrottleReport(result, callConfig.throttle), null, 2),
+							},
+						],
+					}
+				}
+
+				case 'compare_refs': {
+					const args = request.params.arguments as GitLabCompareRefsArgs
+					const result = await compareRefs(args, callConfig, onProgress)
+					return {
+						content: [
+							{
+								type: 'text',
+								text: JSON.stringify(withThrottleReport(result, callConfig.throttle), null, 2),
+							},
+						],
+					}
+				}
+
+				case 'list_branches': {
+					const args = request.params.arguments as GitLabListBranchesArgs
+					const result = await listBranches(args, callConfig, onProgress)
+					return {
+						content: [
+							{
+								type: 'text',
+								text: JSON.stringify(withThrottleReport(result, callConfig.throttle), null, 2),
+							},
+						],
+					}
+				}
+
+				case 'list_tags': {
+					const args = request.params.arguments as GitLabListTagsArgs
+					const result = await listTags(args, callConfig, onProgress)
+					return {
+						content: [
+							{
+								type: 'text',
+								text: JSON.stringify(withThrottleReport(result, callConfig.throttle), null, 2),
+							},
+						],
+					}
+				}
+
+				default:
+					throw new Error(`Unknown tool: ${request.params.name}`)
 			}
+		} catch (error) {
+			const message =
+				timer.signal.aborted && !extra.signal.aborted
+					? `${request.params.name} timed out after ${timer.abortAfterMs / 1000} seconds`
+					: error instanceof Error
+						? error.message
+						: String(error)
 
-			default:
-				throw new Error(`Unknown tool: ${request.params.name}`)
-		}
-	} catch (error) {
-		return {
-			content: [
-				{
-					type: 'text',
-					text: `Error: ${error instanceof Error ? error.message : String(error)}`,
-				},
-			],
-			isError: true,
+			return {
+				content: [
+					{
+						type: 'text',
+						text: `Error: ${message}`,
+					},
+				],
+				isError: true,
+			}
 		}
+	})
+
+	return server
+}
+
+/**
+ * Clients of a shared HTTP server can send their own GitLab token in
+ * X-GitLab-Token; it is used with the server's GITLAB_AUTH_TYPE. Sessions
+ * without one use the server's token; serveHTTP only opens them when
+ * GITLAB_MCP_CREDENTIALS is "server".
+ */
+function configForRequest(request: IncomingMessage): GitLabConfig {
+	const token = request.headers[CLIENT_TOKEN_HEADER]
+	if (typeof token !== 'string' || !token) {
+		return config
 	}
-})
+
+	return {
+		...config,
+		auth: { type: clientAuthType, token },
+	}
+}
 
 async function main() {
+	await verifyTLS(config.baseURL, config.network)
+
+	if (httpOptions) {
+		await serveHTTP(
+			httpOptions,
+			(request) => createMCPServer(configForRequest(request)),
+			CLIENT_TOKEN_HEADER,
+		)
+		return
+	}
+
 	const transport = new StdioServerTransport()
-	await server.connect(transport)
+	await createMCPServer(config).connect(transport)
 	console.error('GitLab MCP Server running on stdio')
 }
 
@@ -0,0 +1,65 @@
+import { afterEach, describe, expect, test } from 'bun:test'
+
+import type { GitLabConfig } from './api-client'
+import { fetchOffsetPage } from './paging'
+
+const TOTAL = 237
+const config: GitLabConfig = { baseURL: 'https://gitlab.example.com/api/v4', auth: { type: 'private-token', token: 'token' } }
+const realFetch = globalThis.fetch
+
+// Serve items 0 to TOTAL - 1 the way GitLab pages them
+function serveItems(): string[] {
+	const requested: string[] = []
+	globalThis.fetch = (async (input: string | URL | Request) => {
+		const url = new URL(String(input))
+		requested.push(`${url.searchParams.get('page')}/${url.searchParams.get('per_page')}`)
+
+		const page = Number(url.searchParams.get('page'))
+		const perPage = Number(url.searchParams.get('per_page'))
+		const start = (page - 1) * perPage
+		const items = Array.from({ length: Math.max(0, Math.min(perPage, TOTAL - start)) }, (_, index) => start + index)
+
+		return new Response(JSON.stringify(items), {
+			headers: {
+				'content-type': 'application/json',
+				'x-next-page': start + perPage < TOTAL ? String(page + 1) : '',
+				'x-total': String(TOTAL),
+			},
+		})
+	}) as typeof fetch
+	return requested
+}
+
+afterEach(() => {
+	globalThis.fetch = realFetch
+})
+
+describe('fetchOffsetPage', () => {
+	test('skips into the page holding an unaligned offset', async () => {
+		const requested = serveItems()
+		const page = await fetchOffsetPage<number>('items', new URLSearchParams(), 25, 10, config, 'list items')
+
+		expect(page.items[0]).toBe(10)
+		expect(page.items.at(-1)).toBe(34)
+		expect(page).toMatchObject({ hasMore: true, nextOffset: 35, total: TOTAL })
+		expect(requested).toEqual(['1/25', '2/25'])
+	})
+
+	test('reads several pages for limits above the largest page', async () => {
+		serveItems()
+		const page = await fetchOffsetPage<number>('items', new URLSearchParams(), 150, 10, config, 'list items')
+
+		expect(page.items).toHaveLength(150)
+		expect(page.items[149]).toBe(159)
+		expect(page.nextOffset).toBe(160)
+	})
+
+	test('stops at the end of the list', async () => {
+		serveItems()
+		const page = await fetchOffsetPage<number>('items', new URLSearchParams(), 25, 230, config, 'list items')
+
+		expect(page.items).toEqual([230, 231, 232, 233, 234, 235, 236])
+		expect(page.hasMore).toBe(false)
+		expect(page.nextOffset).toBeUndefined()
+	})
+})
@@ -0,0 +1,64 @@
+import { type GitLabConfig, fetchFromGitLabAPI } from './api-client'
+
+/**
+ * One window of a list GitLab pages with page and per_page, and the total
+ * GitLab reports for the whole list when it sends one.
+ */
+export type OffsetPage<T> = {
+	items: T[]
+	hasMore: boolean
+	nextOffset?: number
+	total?: number
+}
+
+// The largest page GitLab returns
+const MAX_PAGE_SIZE = 100
+
+/**
+ * Read the items from offset to offset + limit of a paged list. Start at the
+ * page holding the offset and read on until the window is covered, since it
+ * spans pages when the offset is not a multiple of the page size or the
+ * limit is above GitLab's largest page. `action` names the request in
+ * errors, e.g. "list branches".
+ */
+export async function fetchOffsetPage<T>(
+	path: string,
+	params: URLSearchParams,
+	limit: number,
+	offset: number,
+	config: GitLabConfig,
+	action: string,
+): Promise<OffsetPage<T>> {
+	const perPage = Math.max(1, Math.min(limit, MAX_PAGE_SIZE))
+	let page = Math.floor(offset / perPage) + 1
+	const skip = offset - (page - 1) * perPage
+	const items: T[] = []
+	let nextPage: string | null | undefined
+	let total: number | undefined
+
+	params.set('per_page', String(perPage))
+
+	do {
+		params.set('page', String(page))
+		const response = await fetchFromGitLabAPI<T[]>(`${path}?${params}`, {}, config)
+
+		if (!response.ok) {
+			throw new Error(`Failed to ${action}: ${response.status} ${response.statusText || 'Unknown error'}`)
+		}
+
+		items.push(...(response.data ?? []))
+		total ??= Number(response.headers?.get('x-total')) || undefined
+		nextPage = response.headers?.get('x-next-page')
+		page = Number(nextPage)
+	} while (nextPage && items.length < skip + limit)
+
+	const window = items.slice(skip, skip + limit)
+	const hasMore = items.length > skip + limit || Boolean(nextPage)
+
+	return {
+		items: window,
+		hasMore,
+		nextOffset: hasMore ? offset + window.length : undefined,
+		total,
+	}
+}
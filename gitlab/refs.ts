@@ -0,0 +1,63 @@
+import { type GitLabConfig, fetchFromGitLabAPI } from './api-client'
+
+export type ResolvedRef = {
+	ref: string
+	commit: string
+}
+
+interface GitLabProject {
+	default_branch: string
+}
+
+interface GitLabCommit {
+	id: string
+	short_id: string
+}
+
+/**
+ * Resolve a branch name, tag or commit SHA to the commit it points at.
+ * Without a ref the project's default branch is used.
+ */
+export async function resolveRef(
+	projectPath: string,
+	ref: string | undefined,
+	config: GitLabConfig,
+): Promise<ResolvedRef> {
+	const encodedProjectPath = encodeURIComponent(projectPath)
+
+	let resolvedRef = ref
+
+	if (!resolvedRef) {
+		const response = await fetchFromGitLabAPI<GitLabProject>(
+			`projects/${encodedProjectPath}`,
+			{},
+			config,
+		)
+
+		if (!response.ok || !response.data) {
+			throw new Error(
+				`Failed to fetch project ${projectPath}: ${response.status} ${response.statusText || 'Unknown error'}`,
+			)
+		}
+
+		resolvedRef = response.data.default_branch
+	}
+
+	// The single commit endpoint accepts branch names, tags and commit SHAs
+	const response = await fetchFromGitLabAPI<GitLabCommit>(
+		`projects/${encodedProjectPath}/repository/commits/${encodeURIComponent(resolvedRef)}`,
+		{},
+		config,
+	)
+
+	if (!response.ok || !response.data) {
+		throw new Error(
+			`Failed to resolve ref "${resolvedRef}" in ${projectPath}: ${response.status} ${response.statusText || 'Unknown error'}`,
+		)
+	}
+
+	return {
+		ref: resolvedRef,
+		commit: response.data.id,
+	}
+}
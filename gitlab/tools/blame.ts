@@ -0,0 +1,151 @@
+import { type GitLabConfig, fetchFromGitLabAPI } from '../api-client'
+import { resolveRef } from '../refs'
+import type { GitLabCommit } from './file_history'
+
+export type GitLabBlameArgs = {
+	project: string
+	path: string
+	read_range?: [number, number]
+	ref?: string
+}
+
+export const toolDefinition = {
+	name: 'blame_file',
+	description: `Show who last changed each line of a file in a GitLab project (like git blame).
+
+PARAMETERS:
+- project: The GitLab project path (e.g., "group/project" or URL)
+- path: The file path within the repository (required)
+- read_range: Optional [startLine, endLine] to blame only a portion of the file
+- ref: Optional branch, tag or commit SHA to blame at (default: default branch)
+
+Returns the lines grouped into hunks of consecutive lines from the same commit, each with the commit SHA, author, date and message.
+Line numbers match read_file.`,
+	inputSchema: {
+		type: 'object',
+		properties: {
+			project: {
+				type: 'string',
+				description: 'The GitLab project path (e.g., "group/project") or full URL',
+			},
+			path: {
+				type: 'string',
+				description: 'The file path within the repository',
+			},
+			read_range: {
+				type: 'array',
+				description: 'Optional [startLine, endLine] to blame only a portion',
+				items: { type: 'number' },
+				minItems: 2,
+				maxItems: 2,
+			},
+			ref: {
+				type: 'string',
+				description: 'Branch, tag or commit SHA to blame at (default: default branch)',
+			},
+		},
+		required: ['project', 'path'],
+	},
+} as const
+
+export type BlameHunk = {
+	startLine: number
+	endLine: number
+	commit: string
+	author: string
+	date: string
+	message: string
+	content: string
+}
+
+export type GitLabBlameResult = {
+	absolutePath: string
+	ref: string
+	commit: string
+	hunks: BlameHunk[]
+}
+
+interface GitLabBlameRange {
+	commit: GitLabCommit
+	lines: string[]
+}
+
+function extractProjectPath(project: string): string {
+	return project.replace(/\.git$/, '').replace(/^https?:\/\/[^/]+\//, '')
+}
+
+export async function blameFile(
+	args: GitLabBlameArgs,
+	config: GitLabConfig,
+	onProgress?: (message: string) => void,
+): Promise<GitLabBlameResult> {
+	const { project, path, read_range, ref } = args
+
+	const projectPath = extractProjectPath(project)
+	const encodedProjectPath = encodeURIComponent(projectPath)
+
+	onProgress?.(`Blaming file "${path}" in ${projectPath}...`)
+
+	// Normalize the path
+	let relativePath = path
+
+	// Remove file:// prefix if present
+	if (relativePath.startsWith('file://')) {
+		relativePath = relativePath.slice(7)
+	}
+
+	// Remove project prefix if present
+	if (relativePath.startsWith(`/${projectPath}`)) {
+		relativePath = relativePath.slice(`/${projectPath}`.length)
+	}
+
+	// Remove leading slash
+	if (relativePath.startsWith('/')) {
+		relativePath = relativePath.slice(1)
+	}
+
+	const resolved = await resolveRef(projectPath, ref, config)
+
+	const params = new URLSearchParams({ ref: resolved.commit })
+	const startLine = read_range ? Math.max(1, read_range[0]) : 1
+
+	if (read_range) {
+		params.set('range[start]', String(startLine))
+		params.set('range[end]', String(Math.max(startLine, read_range[1])))
+	}
+
+	const apiPath = `projects/${encodedProjectPath}/repository/files/${encodeURIComponent(relativePath)}/blame?${params}`
+
+	const response = await fetchFromGitLabAPI<GitLabBlameRange[]>(apiPath, {}, config)
+
+	if (!response.ok || !response.data) {
+		throw new Error(
+			`Failed to blame file: ${response.status} ${response.statusText || 'Unknown error'}`,
+		)
+	}
+
+	// GitLab already groups consecutive lines by commit; number them like read_file
+	let lineNumber = startLine
+	const hunks: BlameHunk[] = response.data.map((range) => {
+		const hunkStart = lineNumber
+		const content = range.lines.map((line, idx) => `${hunkStart + idx}: ${line}`).join('\n')
+		lineNumber += range.lines.length
+
+		return {
+			startLine: hunkStart,
+			endLine: lineNumber - 1,
+			commit: range.commit.id,
+			author: range.commit.author_name,
+			date: range.commit.authored_date,
+			message: range.commit.message.split('\n')[0] ?? '',
+			content,
+		}
+	})
+
+	return {
+		absolutePath: `/${projectPath}/${relativePath}`,
+		ref: resolved.ref,
+		commit: resolved.commit,
+		hunks,
+	}
+}
@@ -0,0 +1,185 @@
+import { type GitLabConfig, fetchFromGitLabAPI } from '../api-client'
+import { type DiffPage, type GitLabDiff, pageDiffs } from '../diff'
+import type { GitLabCommit } from './file_history'
+
+export type GitLabCompareRefsArgs = {
+	project: string
+	from: string
+	to: string
+	path?: string
+	commitLimit?: number
+	diffOffset?: number
+	diffLimit?: number
+	maxDiffBytes?: number
+}
+
+export const toolDefinition = {
+	name: 'compare_refs',
+	description: `Compare two branches, tags or commits in a GitLab project (like git log/diff from...to).
+
+PARAMETERS:
+- project: The GitLab project path (e.g., "group/project" or URL)
+- from: The older ref - branch, tag or commit SHA, e.g. "v1.2.0" (required)
+- to: The newer ref - branch, tag or commit SHA, e.g. "v1.3.0" (required)
+- path: Optional file or directory path to limit the commits and diff to
+- commitLimit: Maximum number of commits to list (default: 100)
+- diffOffset: Index of the first changed file to include a diff for; use nextDiffOffset from the previous call (default: 0)
+- diffLimit: Maximum number of file diffs to include (default: 20)
+- maxDiffBytes: Maximum total size of the included diffs (default: 60000)
+
+Returns the commits in "to" that are not in "from", every changed file with added/removed line counts,
+and unified diffs paged by file. Use this for "what shipped in release X".`,
+	inputSchema: {
+		type: 'object',
+		properties: {
+			project: {
+				type: 'string',
+				description: 'The GitLab project path (e.g., "group/project") or full URL',
+			},
+			from: {
+				type: 'string',
+				description: 'The older ref - branch, tag or commit SHA',
+			},
+			to: {
+				type: 'string',
+				description: 'The newer ref - branch, tag or commit SHA',
+			},
+			path: {
+				type: 'string',
+				description: 'Optional file or directory path to limit the commits and diff to',
+			},
+			commitLimit: {
+				type: 'number',
+				description: 'Maximum number of commits to list (default: 100)',
+			},
+			diffOffset: {
+				type: 'number',
+				description: 'Index of the first changed file to include a diff for (default: 0)',
+			},
+			diffLimit: {
+				type: 'number',
+				description: 'Maximum number of file diffs to include (default: 20)',
+			},
+			maxDiffBytes: {
+				type: 'number',
+				description: 'Maximum total size of the included diffs (default: 60000)',
+			},
+		},
+		required: ['project', 'from', 'to'],
+	},
+} as const
+
+export type CompareCommit = {
+	commit: string
+	author: string
+	date: string
+	message: string
+}
+
+export type GitLabCompareRefsResult = {
+	from: string
+	to: string
+	commits: CompareCommit[]
+	hasMoreCommits: boolean
+	diff: DiffPage
+	warning?: string
+}
+
+interface GitLabCompareResponse {
+	commits: GitLabCommit[]
+	diffs: GitLabDiff[]
+	compare_timeout: boolean
+}
+
+function extractProjectPath(project: string): string {
+	return project.replace(/\.git$/, '').replace(/^https?:\/\/[^/]+\//, '')
+}
+
+export async function compareRefs(
+	args: GitLabCompareRefsArgs,
+	config: GitLabConfig,
+	onProgress?: (message: string) => void,
+): Promise<GitLabCompareRefsResult> {
+	const {
+		project,
+		from,
+		to,
+		path,
+		commitLimit = 100,
+		diffOffset = 0,
+		diffLimit = 20,
+		maxDiffBytes = 60000,
+	} = args
+
+	const projectPath = extractProjectPath(project)
+	const encodedProjectPath = encodeURIComponent(projectPath)
+
+	onProgress?.(`Comparing ${from}...${to} in ${projectPath}...`)
+
+	const response = await fetchFromGitLabAPI<GitLabCompareResponse>(
+		`projects/${encodedProjectPath}/repository/compare?from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}`,
+		{},
+		config,
+	)
+
+	if (!response.ok || !response.data) {
+		throw new Error(
+			`Failed to compare refs: ${response.status} ${response.statusText || 'Unknown error'}`,
+		)
+	}
+
+	const prefix = path?.replace(/^\/+/, '').replace(/\/+$/, '')
+
+	// GitLab lists commits oldest first; show the newest first like git log
+	let allCommits = [...response.data.commits].reverse()
+	let hasMoreCommits = allCommits.length > commitLimit
+
+	// The compare endpoint has no path filter; the commits endpoint takes
+	// the same range and filters by path
+	if (prefix) {
+		const params = new URLSearchParams({
+			ref_name: `${from}..${to}`,
+			path: prefix,
+			per_page: String(Math.min(commitLimit, 100)),
+		})
+		const commitsResponse = await fetchFromGitLabAPI<GitLabCommit[]>(
+			`projects/${encodedProjectPath}/repository/commits?${params}`,
+			{},
+			config,
+		)
+
+		if (!commitsResponse.ok || !commitsResponse.data) {
+			throw new Error(
+				`Failed to list commits: ${commitsResponse.status} ${commitsResponse.statusText || 'Unknown error'}`,
+			)
+		}
+
+		allCommits = commitsResponse.data
+		hasMoreCommits = Boolean(commitsResponse.headers?.get('x-next-page'))
+	}
+
+	const commits: CompareCommit[] = allCommits.slice(0, commitLimit).map((commit) => ({
+		commit: commit.id,
+		author: commit.author_name,
+		date: commit.authored_date,
+		message: commit.title,
+	}))
+
+	// Narrow the diffs to the path too
+	let diffs = response.data.diffs
+	if (prefix) {
+		const inPath = (filePath: string) => filePath === prefix || filePath.startsWith(`${prefix}/`)
+		diffs = diffs.filter((diff) => inPath(diff.new_path) || inPath(diff.old_path))
+	}
+
+	return {
+		from,
+		to,
+		commits,
+		hasMoreCommits,
+		diff: pageDiffs(diffs, diffOffset, diffLimit, maxDiffBytes),
+		warning: response.data.compare_timeout
+			? 'GitLab timed out computing the comparison; the list of changed files may be incomplete.'
+			: undefined,
+	}
+}
@@ -0,0 +1,153 @@
+import type { GitLabConfig } from '../api-client'
+import { fetchOffsetPage } from '../paging'
+import { resolveRef } from '../refs'
+
+export type GitLabFileHistoryArgs = {
+	project: string
+	path: string
+	ref?: string
+	since?: string
+	until?: string
+	limit?: number
+	offset?: number
+}
+
+export const toolDefinition = {
+	name: 'file_history',
+	description: `List the commits that changed a file or directory in a GitLab project, newest first (like git log -- path).
+
+PARAMETERS:
+- project: The GitLab project path (e.g., "group/project" or URL)
+- path: The file or directory path within the repository (required)
+- ref: Optional branch, tag or commit SHA to start from (default: default branch)
+- since: Only commits on or after this ISO 8601 date, e.g. "2024-01-31" (optional)
+- until: Only commits on or before this ISO 8601 date (optional)
+- limit: Maximum results (default: 25)
+- offset: Number of results to skip (default: 0)
+
+Returns commits with SHA, author, date and message.`,
+	inputSchema: {
+		type: 'object',
+		properties: {
+			project: {
+				type: 'string',
+				description: 'The GitLab project path (e.g., "group/project") or full URL',
+			},
+			path: {
+				type: 'string',
+				description: 'The file or directory path within the repository',
+			},
+			ref: {
+				type: 'string',
+				description: 'Branch, tag or commit SHA to start from (default: default branch)',
+			},
+			since: {
+				type: 'string',
+				description: 'Only commits on or after this ISO 8601 date',
+			},
+			until: {
+				type: 'string',
+				description: 'Only commits on or before this ISO 8601 date',
+			},
+			limit: {
+				type: 'number',
+				description: 'Maximum number of results (default: 25)',
+			},
+			offset: {
+				type: 'number',
+				description: 'Number of results to skip (default: 0)',
+			},
+		},
+		required: ['project', 'path'],
+	},
+} as const
+
+export type CommitInfo = {
+	commit: string
+	author: string
+	authorEmail: string
+	date: string
+	message: string
+}
+
+export type GitLabFileHistoryResult = {
+	path: string
+	ref: string
+	commit: string
+	commits: CommitInfo[]
+	hasMore: boolean
+	nextOffset?: number
+}
+
+export interface GitLabCommit {
+	id: string
+	short_id: string
+	title: string
+	message: string
+	author_name: string
+	author_email: string
+	authored_date: string
+	committed_date: string
+}
+
+function extractProjectPath(project: string): string {
+	return project.replace(/\.git$/, '').replace(/^https?:\/\/[^/]+\//, '')
+}
+
+export async function fileHistory(
+	args: GitLabFileHistoryArgs,
+	config: GitLabConfig,
+	onProgress?: (message: string) => void,
+): Promise<GitLabFileHistoryResult> {
+	const { project, path, ref, since, until, limit = 25, offset = 0 } = args
+
+	const projectPath = extractProjectPath(project)
+	const encodedProjectPath = encodeURIComponent(projectPath)
+
+	// Remove project prefix and surrounding slashes if present
+	let relativePath = path
+	if (relativePath.startsWith(`/${projectPath}`)) {
+		relativePath = relativePath.slice(`/${projectPath}`.length)
+	}
+	relativePath = relativePath.replace(/^\/+/, '').replace(/\/+$/, '')
+
+	onProgress?.(`Fetching history of "${relativePath}" in ${projectPath}...`)
+
+	const resolved = await resolveRef(projectPath, ref, config)
+
+	const params = new URLSearchParams({
+		path: relativePath,
+		ref_name: resolved.commit,
+	})
+
+	if (since) {
+		params.set('since', since)
+	}
+	if (until) {
+		params.set('until', until)
+	}
+
+	const page = await fetchOffsetPage<GitLabCommit>(
+		`projects/${encodedProjectPath}/repository/commits`,
+		params,
+		limit,
+		offset,
+		config,
+		'fetch commit history',
+	)
+
+	return {
+		path: `/${projectPath}/${relativePath}`,
+		ref: resolved.ref,
+		commit: resolved.commit,
+		commits: page.items.map((commit) => ({
+			commit: commit.id,
+			author: commit.author_name,
+			authorEmail: commit.author_email,
+			date: commit.authored_date,
+			message: commit.message.trim(),
+		})),
+		hasMore: page.hasMore,
+		nextOffset: page.nextOffset,
+	}
+}
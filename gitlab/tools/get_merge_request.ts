@@ -0,0 +1,243 @@
+import { type GitLabConfig, fetchFromGitLabAPI } from '../api-client'
+import { type DiffPage, type GitLabDiff, pageDiffs } from '../diff'
+import {
+	type GitLabMergeRequest,
+	type GitLabUser,
+	type MergeRequestSummary,
+	summarizeMergeRequest,
+} from './list_merge_requests'
+
+export type GitLabGetMergeRequestArgs = {
+	project: string
+	iid: number
+	diffOffset?: number
+	diffLimit?: number
+	maxDiffBytes?: number
+}
+
+export const toolDefinition = {
+	name: 'get_merge_request',
+	description: `Read a GitLab merge request: description, discussion threads, approvals and its diff.
+
+PARAMETERS:
+- project: The GitLab project path (e.g., "group/project" or URL)
+- iid: The merge request number shown in GitLab, e.g. 42 for !42 (required)
+- diffOffset: Index of the first changed file to include a diff for; use nextDiffOffset from the previous call (default: 0)
+- diffLimit: Maximum number of file diffs to include (default: 20)
+- maxDiffBytes: Maximum total size of the included diffs (default: 60000)
+
+Every changed file is listed with added/removed line counts; unified diffs are paged by file.`,
+	inputSchema: {
+		type: 'object',
+		properties: {
+			project: {
+				type: 'string',
+				description: 'The GitLab project path (e.g., "group/project") or full URL',
+			},
+			iid: {
+				type: 'number',
+				description: 'The merge request number (e.g., 42 for !42)',
+			},
+			diffOffset: {
+				type: 'number',
+				description: 'Index of the first changed file to include a diff for (default: 0)',
+			},
+			diffLimit: {
+				type: 'number',
+				description: 'Maximum number of file diffs to include (default: 20)',
+			},
+			maxDiffBytes: {
+				type: 'number',
+				description: 'Maximum total size of the included diffs (default: 60000)',
+			},
+		},
+		required: ['project', 'iid'],
+	},
+} as const
+
+export type DiscussionNote = {
+	date: string
+	user: string
+	body: string
+}
+
+export type Discussion = {
+	path?: string
+	line?: number
+	resolved?: boolean
+	notes: DiscussionNote[]
+}
+
+export type Approvals = {
+	approved: boolean
+	approvalsRequired: number
+	approvalsLeft: number
+	approvedBy: string[]
+}
+
+export type GitLabGetMergeRequestResult = MergeRequestSummary & {
+	description: string | null
+	headCommit: string
+	baseCommit?: string
+	approvals?: Approvals
+	discussions: Discussion[]
+	diff: DiffPage
+}
+
+interface GitLabNote {
+	id: number
+	body: string
+	author: GitLabUser
+	created_at: string
+	system: boolean
+	resolvable: boolean
+	resolved?: boolean
+	position?: {
+		new_path?: string
+		old_path?: string
+		new_line?: number | null
+		old_line?: number | null
+	}
+}
+
+interface GitLabDiscussion {
+	id: string
+	individual_note: boolean
+	notes: GitLabNote[]
+}
+
+interface GitLabApprovals {
+	approved: boolean
+	approvals_required: number
+	approvals_left: number
+	approved_by: Array<{ user: GitLabUser }>
+}
+
+function extractProjectPath(project: string): string {
+	return project.replace(/\.git$/, '').replace(/^https?:\/\/[^/]+\//, '')
+}
+
+/**
+ * Fetch every changed file of a merge request. The paged `diffs` endpoint
+ * needs GitLab 15.7; older instances only have the deprecated `changes`.
+ */
+async function fetchMergeRequestDiffs(
+	mergeRequestPath: string,
+	config: GitLabConfig,
+): Promise<GitLabDiff[]> {
+	const diffs: GitLabDiff[] = []
+	let page = 1
+
+	while (true) {
+		const response = await fetchFromGitLabAPI<GitLabDiff[]>(
+			`${mergeRequestPath}/diffs?per_page=100&page=${page}`,
+			{},
+			config,
+		)
+
+		if (response.status === 404 && page === 1) {
+			break
+		}
+
+		if (!response.ok || !response.data) {
+			throw new Error(
+				`Failed to read merge request diffs: ${response.status} ${response.statusText || 'Unknown error'}`,
+			)
+		}
+
+		diffs.push(...response.data)
+
+		if (!response.headers?.get('x-next-page')) {
+			return diffs
+		}
+		page++
+	}
+
+	const response = await fetchFromGitLabAPI<{ changes: GitLabDiff[] }>(
+		`${mergeRequestPath}/changes`,
+		{},
+		config,
+	)
+
+	if (!response.ok || !response.data) {
+		throw new Error(
+			`Failed to read merge request changes: ${response.status} ${response.statusText || 'Unknown error'}`,
+		)
+	}
+
+	return response.data.changes
+}
+
+export async function getMergeRequest(
+	args: GitLabGetMergeRequestArgs,
+	config: GitLabConfig,
+	onProgress?: (message: string) => void,
+): Promise<GitLabGetMergeRequestResult> {
+	const { project, iid, diffOffset = 0, diffLimit = 20, maxDiffBytes = 60000 } = args
+
+	const projectPath = extractProjectPath(project)
+	const encodedProjectPath = encodeURIComponent(projectPath)
+
+	onProgress?.(`Reading merge request !${iid} in ${projectPath}...`)
+
+	const mergeRequestPath = `projects/${encodedProjectPath}/merge_requests/${iid}`
+
+	const [mergeRequestResponse, discussionsResponse, approvalsResponse, diffs] = await Promise.all([
+		fetchFromGitLabAPI<GitLabMergeRequest>(mergeRequestPath, {}, config),
+		fetchFromGitLabAPI<GitLabDiscussion[]>(
+			`${mergeRequestPath}/discussions?per_page=100`,
+			{},
+			config,
+		),
+		// Approvals are a paid feature on some instances, so a failure is not fatal
+		fetchFromGitLabAPI<GitLabApprovals>(`${mergeRequestPath}/approvals`, {}, config),
+		fetchMergeRequestDiffs(mergeRequestPath, config),
+	])
+
+	if (!mergeRequestResponse.ok || !mergeRequestResponse.data) {
+		throw new Error(
+			`Failed to read merge request: ${mergeRequestResponse.status} ${mergeRequestResponse.statusText || 'Unknown error'}`,
+		)
+	}
+
+	const mergeRequest = mergeRequestResponse.data
+
+	// Keep human discussion only; system notes record pushes and label changes
+	const discussions: Discussion[] = (discussionsResponse.data ?? [])
+		.map((discussion) => {
+			const notes = discussion.notes.filter((note) => !note.system)
+			const first = notes[0]
+			const position = first?.position
+
+			return {
+				path: position?.new_path ?? position?.old_path,
+				line: position?.new_line ?? position?.old_line ?? undefined,
+				resolved: first?.resolvable ? Boolean(first.resolved) : undefined,
+				notes: notes.map((note) => ({
+					date: note.created_at,
+					user: note.author.username,
+					body: note.body,
+				})),
+			}
+		})
+		.filter((discussion) => discussion.notes.length > 0)
+
+	const approvals = approvalsResponse.data
+		? {
+				approved: approvalsResponse.data.approved,
+				approvalsRequired: approvalsResponse.data.approvals_required,
+				approvalsLeft: approvalsResponse.data.approvals_left,
+				approvedBy: approvalsResponse.data.approved_by.map((approval) => approval.user.username),
+			}
+		: undefined
+
+	return {
+		...summarizeMergeRequest(mergeRequest),
+		description: mergeRequest.description,
+		headCommit: mergeRequest.sha,
+		baseCommit: mergeRequest.diff_refs?.base_sha,
+		approvals,
+		discussions,
+		diff: pageDiffs(diffs, diffOffset, diffLimit, maxDiffBytes),
+	}
+}
@@ -1,12 +1,15 @@
 import picomatch from 'picomatch/posix'
 
-import { type GitLabConfig, fetchFromGitLabAPI } from '../api-client'
+import { DEADLINE_WARNING, pastDeadline } from '../../shared/timeouts'
+import { type GitLabConfig, type GitLabResponse, fetchFromGitLabAPI } from '../api-client'
+import { resolveRef } from '../refs'
 
 export type GitLabGlobArgs = {
 	project: string
 	filePattern: string
 	limit?: number
 	offset?: number
+	ref?: string
 }
 
 export const toolDefinition = {
@@ -18,8 +21,11 @@ PARAMETERS:
 - filePattern: Glob pattern to match files (required, e.g., "**/*.ts")
 - limit: Maximum results (default: 100)
 - offset: Number of results to skip (default: 0)
+- ref: Optional branch, tag or commit SHA to list (default: default branch)
 
-Returns list of file paths matching the pattern.`,
+Only the literal directory prefix of the pattern is listed (e.g. "src/api" for "src/api/**"),
+so anchoring patterns to a directory is much faster than starting with "**".
+Returns list of file paths matching the pattern, the commit they were listed at, and whether more matches exist.`,
 	inputSchema: {
 		type: 'object',
 		properties: {
@@ -39,14 +45,26 @@ Returns list of file paths matching the pattern.`,
 				type: 'number',
 				description: 'Number of results to skip (default: 0)',
 			},
+			ref: {
+				type: 'string',
+				description: 'Branch, tag or commit SHA to list (default: default branch)',
+			},
 		},
 		required: ['project', 'filePattern'],
 	},
 } as const
 
+export type GitLabGlobResult = {
+	files: string[]
+	ref: string
+	commit: string
+	hasMore: boolean
+	warning?: string
+}
+
 interface GitLabTreeItem {
 	path: string
-	type: 'blob' | 'tree'
+	type: 'blob' | 'tree' | 'commit'
 	mode: string
 	id: string
 }
@@ -56,54 +74,82 @@ function extractProjectPath(project: string): string {
 	return project.replace(/\.git$/, '').replace(/^https?:\/\/[^/]+\//, '')
 }
 
+function nextPageURL(headers: Headers | undefined): string | undefined {
+	const link = headers?.get('link')
+	return link?.match(/<([^>]+)>;\s*rel="next"/)?.[1]
+}
+
 export async function globFiles(
 	args: GitLabGlobArgs,
 	config: GitLabConfig,
 	onProgress?: (message: string) => void,
-): Promise<string[]> {
-	const { project, filePattern, limit = 100, offset = 0 } = args
+): Promise<GitLabGlobResult> {
+	const { project, filePattern, limit = 100, offset = 0, ref } = args
 
 	const projectPath = extractProjectPath(project)
 	const encodedProjectPath = encodeURIComponent(projectPath)
 
 	onProgress?.(`Finding files matching "${filePattern}" in ${projectPath}...`)
 
-	// Use GitLab API recursive tree endpoint
-	const apiPath = `projects/${encodedProjectPath}/repository/tree?recursive=true&per_page=100`
+	const resolved = await resolveRef(projectPath, ref, config)
 
-	const allFiles: string[] = []
-	let page = 1
-	let hasMore = true
+	const isMatch = picomatch(filePattern)
+
+	// Only list below the literal prefix of the pattern; a pattern without
+	// wildcards names a single file, so list its directory
+	const { base, isGlob } = picomatch.scan(filePattern)
+	const prefix = isGlob ? base : base.split('/').slice(0, -1).join('/')
+
+	// Use GitLab API recursive tree endpoint with keyset pagination
+	let nextPath: string | undefined =
+		`projects/${encodedProjectPath}/repository/tree?recursive=true&pagination=keyset&per_page=100&ref=${resolved.commit}${prefix ? `&path=${encodeURIComponent(prefix)}` : ''}`
 
-	// Paginate through all results
-	while (hasMore) {
-		const response = await fetchFromGitLabAPI<GitLabTreeItem[]>(
-			`${apiPath}&page=${page}`,
+	// Collect one match past the requested page so we know whether more exist
+	const wanted = limit ? offset + limit + 1 : Number.POSITIVE_INFINITY
+	const matchedFiles: string[] = []
+	let listed = 0
+	let warning: string | undefined
+
+	while (nextPath && matchedFiles.length < wanted) {
+		if (listed > 0 && pastDeadline(config)) {
+			warning = DEADLINE_WARNING
+			break
+		}
+
+		const response: GitLabResponse<GitLabTreeItem[]> = await fetchFromGitLabAPI<GitLabTreeItem[]>(
+			nextPath,
 			{},
 			config,
 		)
 
 		if (!response.ok || !response.data) {
-			if (page === 1) {
+			if (listed === 0) {
+				if (response.status === 404 && prefix) {
+					// The prefix directory does not exist at this commit
+					break
+				}
+
 				throw new Error(
 					`Failed to fetch files: ${response.status} ${response.statusText || 'Unknown error'}`,
 				)
 			}
+
+			warning = `Listing stopped after ${listed} entries: ${response.status} ${response.statusText || 'Unknown error'}. Results may be incomplete.`
 			break
 		}
 
 		// Filter to only include file entries (blobs)
-		const files = response.data.filter((item) => item.type === 'blob').map((item) => item.path)
-		allFiles.push(...files)
+		for (const item of response.data) {
+			if (item.type === 'blob' && isMatch(item.path)) {
+				matchedFiles.push(item.path)
+			}
+		}
 
-		// Check if there are more pages
-		hasMore = response.data.length === 100
-		page++
-	}
+		listed += response.data.length
+		onProgress?.(`Listed ${listed} entries, ${matchedFiles.length} matching...`)
 
-	// Apply glob pattern matching
-	const isMatch = picomatch(filePattern)
-	const matchedFiles = allFiles.filter((p) => isMatch(p))
+		nextPath = nextPageURL(response.headers)
+	}
 
 	// Apply pagination
 	const paginatedFiles = limit
@@ -111,5 +157,11 @@ export async function globFiles(
 		: matchedFiles.slice(offset)
 
 	// Return paths with project prefix
-	return paginatedFiles.map((path) => `/${projectPath}/${path}`)
+	return {
+		files: paginatedFiles.map((path) => `/${projectPath}/${path}`),
+		ref: resolved.ref,
+		commit: resolved.commit,
+		hasMore: warning !== undefined || (limit ? matchedFiles.length > offset + limit : false),
+		warning,
+	}
 }
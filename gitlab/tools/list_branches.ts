@@ -0,0 +1,120 @@
+import type { GitLabConfig } from '../api-client'
+import { fetchOffsetPage } from '../paging'
+
+export type GitLabListBranchesArgs = {
+	project: string
+	filter?: string
+	sort?: 'recent' | 'name'
+	limit?: number
+	offset?: number
+}
+
+export const toolDefinition = {
+	name: 'list_branches',
+	description: `List branches in a GitLab project.
+
+PARAMETERS:
+- project: The GitLab project path (e.g., "group/project" or URL)
+- filter: Only branches whose name contains this text (optional)
+- sort: "recent" for most recently committed first, or "name" (default: recent)
+- limit: Maximum results (default: 25)
+- offset: Number of results to skip (default: 0)
+
+Returns branches with the default-branch flag and their latest commit SHA and date.
+Use the branch names as the ref argument of the other tools.`,
+	inputSchema: {
+		type: 'object',
+		properties: {
+			project: {
+				type: 'string',
+				description: 'The GitLab project path (e.g., "group/project") or full URL',
+			},
+			filter: {
+				type: 'string',
+				description: 'Only branches whose name contains this text',
+			},
+			sort: {
+				type: 'string',
+				enum: ['recent', 'name'],
+				description: 'Most recently committed first, or alphabetical (default: recent)',
+			},
+			limit: {
+				type: 'number',
+				description: 'Maximum number of results (default: 25)',
+			},
+			offset: {
+				type: 'number',
+				description: 'Number of results to skip (default: 0)',
+			},
+		},
+		required: ['project'],
+	},
+} as const
+
+export type BranchInfo = {
+	name: string
+	isDefault: boolean
+	commit: string
+	date: string
+}
+
+export type GitLabListBranchesResult = {
+	branches: BranchInfo[]
+	hasMore: boolean
+	nextOffset?: number
+}
+
+interface GitLabBranch {
+	name: string
+	default: boolean
+	protected: boolean
+	commit: {
+		id: string
+		committed_date: string
+	}
+}
+
+function extractProjectPath(project: string): string {
+	return project.replace(/\.git$/, '').replace(/^https?:\/\/[^/]+\//, '')
+}
+
+export async function listBranches(
+	args: GitLabListBranchesArgs,
+	config: GitLabConfig,
+	onProgress?: (message: string) => void,
+): Promise<GitLabListBranchesResult> {
+	const { project, filter, sort = 'recent', limit = 25, offset = 0 } = args
+
+	const projectPath = extractProjectPath(project)
+	const encodedProjectPath = encodeURIComponent(projectPath)
+
+	onProgress?.(`Listing branches in ${projectPath}...`)
+
+	const params = new URLSearchParams({
+		sort: sort === 'recent' ? 'updated_desc' : 'name_asc',
+	})
+
+	if (filter) {
+		params.set('search', filter)
+	}
+
+	const page = await fetchOffsetPage<GitLabBranch>(
+		`projects/${encodedProjectPath}/repository/branches`,
+		params,
+		limit,
+		offset,
+		config,
+		'list branches',
+	)
+
+	return {
+		branches: page.items.map((branch) => ({
+			name: branch.name,
+			isDefault: branch.default,
+			commit: branch.commit.id,
+			date: branch.commit.committed_date,
+		})),
+		hasMore: page.hasMore,
+		nextOffset: page.nextOffset,
+	}
+}
@@ -1,9 +1,13 @@
-import { type GitLabConfig, fetchFromGitLabAPI } from '../api-client'
+import type { GitLabConfig } from '../api-client'
+import { fetchOffsetPage } from '../paging'
+import { resolveRef } from '../refs'
 
 export type GitLabListDirectoryArgs = {
 	project: string
 	path?: string
 	limit?: number
+	offset?: number
+	ref?: string
 }
 
 export const toolDefinition = {
@@ -14,8 +18,10 @@ PARAMETERS:
 - project: The GitLab project path (e.g., "group/project" or URL)
 - path: The directory path to list (default: root)
 - limit: Maximum number of entries to return (default: 100)
+- offset: Number of entries to skip (default: 0)
+- ref: Optional branch, tag or commit SHA to list (default: default branch)
 
-Returns list of files and directories, with directories having a trailing slash.`,
+Returns list of files and directories, with directories having a trailing slash, and the commit they were listed at.`,
 	inputSchema: {
 		type: 'object',
 		properties: {
@@ -31,11 +37,27 @@ Returns list of files and directories, with directories having a trailing slash.
 				type: 'number',
 				description: 'Maximum number of entries to return (default: 100)',
 			},
+			offset: {
+				type: 'number',
+				description: 'Number of entries to skip (default: 0)',
+			},
+			ref: {
+				type: 'string',
+				description: 'Branch, tag or commit SHA to list (default: default branch)',
+			},
 		},
 		required: ['project'],
 	},
 } as const
 
+export type GitLabListDirectoryResult = {
+	entries: string[]
+	ref: string
+	commit: string
+	hasMore: boolean
+	nextOffset?: number
+}
+
 interface GitLabTreeItem {
 	name: string
 	path: string
@@ -50,41 +72,37 @@ export async function listDirectory(
 	args: GitLabListDirectoryArgs,
 	config: GitLabConfig,
 	onProgress?: (message: string) => void,
-): Promise<string[]> {
-	const { project, path = '', limit = 100 } = args
+): Promise<GitLabListDirectoryResult> {
+	const { project, path = '', limit = 100, offset = 0, ref } = args
 
 	const projectPath = extractProjectPath(project)
 	const encodedProjectPath = encodeURIComponent(projectPath)
 
 	onProgress?.(`Listing directory "${path || '/'}" in ${projectPath}...`)
 
-	// Build API path - GitLab tree endpoint with optional path filter
-	let apiPath = `projects/${encodedProjectPath}/repository/tree?per_page=${limit}`
+	const resolved = await resolveRef(projectPath, ref, config)
+
+	const params = new URLSearchParams({ ref: resolved.commit })
 	if (path && path !== '.' && path !== '/') {
-		apiPath += `&path=${encodeURIComponent(path)}`
+		params.set('path', path)
 	}
 
-	const response = await fetchFromGitLabAPI<GitLabTreeItem[]>(apiPath, {}, config)
+	const page = await fetchOffsetPage<GitLabTreeItem>(
+		`projects/${encodedProjectPath}/repository/tree`,
+		params,
+		limit,
+		offset,
+		config,
+		'list directory',
+	)
 
-	if (!response.ok || !response.data) {
-		throw new Error(
-			`Failed to list directory: ${response.status} ${response.statusText || 'Unknown error'}`,
-		)
+	// GitLab lists directories first, then files, each by name, so the order
+	// holds across pages. Directories get a trailing slash.
+	return {
+		entries: page.items.map((item) => (item.type === 'tree' ? `${item.name}/` : item.name)),
+		ref: resolved.ref,
+		commit: resolved.commit,
+		hasMore: page.hasMore,
+		nextOffset: page.nextOffset,
 	}
-
-	// Format entries: directories get trailing slash
-	const entries = response.data.map((item) => {
-		return item.type === 'tree' ? `${item.name}/` : item.name
-	})
-
-	// Sort: directories first, then alphabetically
-	entries.sort((a, b) => {
-		const aIsDir = a.endsWith('/')
-		const bIsDir = b.endsWith('/')
-		if (aIsDir && !bIsDir) return -1
-		if (!aIsDir && bIsDir) return 1
-		return a.localeCompare(b)
-	})
-
-	return entries
 }
@@ -0,0 +1,198 @@
+import type { GitLabConfig } from '../api-client'
+import { fetchOffsetPage } from '../paging'
+
+export type GitLabListMergeRequestsArgs = {
+	project: string
+	state?: 'opened' | 'closed' | 'merged' | 'locked' | 'all'
+	author?: string
+	labels?: string[]
+	targetBranch?: string
+	updatedAfter?: string
+	limit?: number
+	offset?: number
+}
+
+export const toolDefinition = {
+	name: 'list_merge_requests',
+	description: `List merge requests in a GitLab project, most recently updated first.
+
+PARAMETERS:
+- project: The GitLab project path (e.g., "group/project" or URL)
+- state: opened, closed, merged, locked or all (default: opened)
+- author: Only merge requests opened by this username (optional)
+- labels: Only merge requests with all of these labels (optional)
+- targetBranch: Only merge requests into this branch, e.g. "main" (optional)
+- updatedAfter: Only merge requests updated after this ISO 8601 date, e.g. "2024-01-31" (optional)
+- limit: Maximum results (default: 25)
+- offset: Number of results to skip (default: 0)
+
+Returns merge requests with title, state, author, branches, labels and dates.
+Use get_merge_request to read one in full.`,
+	inputSchema: {
+		type: 'object',
+		properties: {
+			project: {
+				type: 'string',
+				description: 'The GitLab project path (e.g., "group/project") or full URL',
+			},
+			state: {
+				type: 'string',
+				enum: ['opened', 'closed', 'merged', 'locked', 'all'],
+				description: 'Merge request state (default: opened)',
+			},
+			author: {
+				type: 'string',
+				description: 'Only merge requests opened by this username',
+			},
+			labels: {
+				type: 'array',
+				items: { type: 'string' },
+				description: 'Only merge requests with all of these labels',
+			},
+			targetBranch: {
+				type: 'string',
+				description: 'Only merge requests into this branch (e.g., "main")',
+			},
+			updatedAfter: {
+				type: 'string',
+				description: 'Only merge requests updated after this ISO 8601 date',
+			},
+			limit: {
+				type: 'number',
+				description: 'Maximum number of results (default: 25)',
+			},
+			offset: {
+				type: 'number',
+				description: 'Number of results to skip (default: 0)',
+			},
+		},
+		required: ['project'],
+	},
+} as const
+
+export interface GitLabUser {
+	username: string
+	name: string
+}
+
+export interface GitLabMergeRequest {
+	iid: number
+	title: string
+	description: string | null
+	state: string
+	draft?: boolean
+	author: GitLabUser
+	source_branch: string
+	target_branch: string
+	labels: string[]
+	created_at: string
+	updated_at: string
+	merged_at?: string | null
+	web_url: string
+	sha: string
+	diff_refs?: {
+		base_sha: string
+		head_sha: string
+		start_sha: string
+	}
+}
+
+export type MergeRequestSummary = {
+	iid: number
+	title: string
+	state: string
+	draft: boolean
+	author: string
+	sourceBranch: string
+	targetBranch: string
+	labels: string[]
+	createdAt: string
+	updatedAt: string
+	mergedAt?: string
+	url: string
+}
+
+export type GitLabListMergeRequestsResult = {
+	mergeRequests: MergeRequestSummary[]
+	totalCount: number
+	hasMore: boolean
+	nextOffset?: number
+}
+
+function extractProjectPath(project: string): string {
+	return project.replace(/\.git$/, '').replace(/^https?:\/\/[^/]+\//, '')
+}
+
+export function summarizeMergeRequest(mergeRequest: GitLabMergeRequest): MergeRequestSummary {
+	return {
+		iid: mergeRequest.iid,
+		title: mergeRequest.title,
+		state: mergeRequest.state,
+		draft: mergeRequest.draft ?? false,
+		author: mergeRequest.author.username,
+		sourceBranch: mergeRequest.source_branch,
+		targetBranch: mergeRequest.target_branch,
+		labels: mergeRequest.labels,
+		createdAt: mergeRequest.created_at,
+		updatedAt: mergeRequest.updated_at,
+		mergedAt: mergeRequest.merged_at ?? undefined,
+		url: mergeRequest.web_url,
+	}
+}
+
+export async function listMergeRequests(
+	args: GitLabListMergeRequestsArgs,
+	config: GitLabConfig,
+	onProgress?: (message: string) => void,
+): Promise<GitLabListMergeRequestsResult> {
+	const {
+		project,
+		state = 'opened',
+		author,
+		labels,
+		targetBranch,
+		updatedAfter,
+		limit = 25,
+		offset = 0,
+	} = args
+
+	const projectPath = extractProjectPath(project)
+	const encodedProjectPath = encodeURIComponent(projectPath)
+
+	onProgress?.(`Listing ${state} merge requests in ${projectPath}...`)
+
+	const params = new URLSearchParams({
+		state,
+		order_by: 'updated_at',
+		sort: 'desc',
+	})
+
+	if (author) {
+		params.set('author_username', author)
+	}
+	if (labels?.length) {
+		params.set('labels', labels.join(','))
+	}
+	if (targetBranch) {
+		params.set('target_branch', targetBranch)
+	}
+	if (updatedAfter) {
+		params.set('updated_after', updatedAfter)
+	}
+
+	const page = await fetchOffsetPage<GitLabMergeRequest>(
+		`projects/${encodedProjectPath}/merge_requests`,
+		params,
+		limit,
+		offset,
+		config,
+		'list merge requests',
+	)
+
+	return {
+		mergeRequests: page.items.map(summarizeMergeRequest),
+		totalCount: page.total ?? page.items.length,
+		hasMore: page.hasMore,
+		nextOffset: page.nextOffset,
+	}
+}
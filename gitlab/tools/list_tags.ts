@@ -0,0 +1,121 @@
+import type { GitLabConfig } from '../api-client'
+import { fetchOffsetPage } from '../paging'
+
+export type GitLabListTagsArgs = {
+	project: string
+	filter?: string
+	sort?: 'recent' | 'name'
+	limit?: number
+	offset?: number
+}
+
+export const toolDefinition = {
+	name: 'list_tags',
+	description: `List tags in a GitLab project.
+
+PARAMETERS:
+- project: The GitLab project path (e.g., "group/project" or URL)
+- filter: Only tags whose name contains this text (optional)
+- sort: "recent" for most recently created first, or "name" (default: recent)
+- limit: Maximum results (default: 25)
+- offset: Number of results to skip (default: 0)
+
+Returns tags with the commit SHA and date they point at.
+Use the tag names as the ref argument of the other tools.`,
+	inputSchema: {
+		type: 'object',
+		properties: {
+			project: {
+				type: 'string',
+				description: 'The GitLab project path (e.g., "group/project") or full URL',
+			},
+			filter: {
+				type: 'string',
+				description: 'Only tags whose name contains this text',
+			},
+			sort: {
+				type: 'string',
+				enum: ['recent', 'name'],
+				description: 'Most recently created first, or alphabetical (default: recent)',
+			},
+			limit: {
+				type: 'number',
+				description: 'Maximum number of results (default: 25)',
+			},
+			offset: {
+				type: 'number',
+				description: 'Number of results to skip (default: 0)',
+			},
+		},
+		required: ['project'],
+	},
+} as const
+
+export type TagInfo = {
+	name: string
+	commit: string
+	date: string
+	message?: string
+}
+
+export type GitLabListTagsResult = {
+	tags: TagInfo[]
+	hasMore: boolean
+	nextOffset?: number
+}
+
+interface GitLabTag {
+	name: string
+	message: string | null
+	target: string
+	commit: {
+		id: string
+		committed_date: string
+	}
+}
+
+function extractProjectPath(project: string): string {
+	return project.replace(/\.git$/, '').replace(/^https?:\/\/[^/]+\//, '')
+}
+
+export async function listTags(
+	args: GitLabListTagsArgs,
+	config: GitLabConfig,
+	onProgress?: (message: string) => void,
+): Promise<GitLabListTagsResult> {
+	const { project, filter, sort = 'recent', limit = 25, offset = 0 } = args
+
+	const projectPath = extractProjectPath(project)
+	const encodedProjectPath = encodeURIComponent(projectPath)
+
+	onProgress?.(`Listing tags in ${projectPath}...`)
+
+	const params = new URLSearchParams({
+		order_by: sort === 'recent' ? 'updated' : 'name',
+		sort: sort === 'recent' ? 'desc' : 'asc',
+	})
+
+	if (filter) {
+		params.set('search', filter)
+	}
+
+	const page = await fetchOffsetPage<GitLabTag>(
+		`projects/${encodedProjectPath}/repository/tags`,
+		params,
+		limit,
+		offset,
+		config,
+		'list tags',
+	)
+
+	return {
+		tags: page.items.map((tag) => ({
+			name: tag.name,
+			commit: tag.commit.id,
+			date: tag.commit.committed_date,
+			message: tag.message || undefined,
+		})),
+		hasMore: page.hasMore,
+		nextOffset: page.nextOffset,
+	}
+}
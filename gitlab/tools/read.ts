@@ -1,9 +1,11 @@
 import { type GitLabConfig, fetchFromGitLabAPI } from '../api-client'
+import { resolveRef } from '../refs'
 
 export type GitLabReadArgs = {
 	project: string
 	path: string
 	read_range?: [number, number]
+	ref?: string
 }
 
 export const toolDefinition = {
@@ -14,8 +16,9 @@ PARAMETERS:
 - project: The GitLab project path (e.g., "group/project" or URL)
 - path: The file path within the repository (required)
 - read_range: Optional [startLine, endLine] to read only a portion of the file
+- ref: Optional branch, tag or commit SHA to read from (default: default branch)
 
-Returns file contents with line numbers.`,
+Returns file contents with line numbers and the commit they were read at.`,
 	inputSchema: {
 		type: 'object',
 		properties: {
@@ -34,6 +37,10 @@ Returns file contents with line numbers.`,
 				minItems: 2,
 				maxItems: 2,
 			},
+			ref: {
+				type: 'string',
+				description: 'Branch, tag or commit SHA to read from (default: default branch)',
+			},
 		},
 		required: ['project', 'path'],
 	},
@@ -42,6 +49,8 @@ Returns file contents with line numbers.`,
 export type GitLabReadResult = {
 	absolutePath: string
 	content: string
+	ref: string
+	commit: string
 }
 
 function extractProjectPath(project: string): string {
@@ -53,7 +62,7 @@ export async function readFile(
 	config: GitLabConfig,
 	onProgress?: (message: string) => void,
 ): Promise<GitLabReadResult> {
-	const { project, path, read_range } = args
+	const { project, path, read_range, ref } = args
 
 	const projectPath = extractProjectPath(project)
 	const encodedProjectPath = encodeURIComponent(projectPath)
@@ -78,11 +87,13 @@ export async function readFile(
 		relativePath = relativePath.slice(1)
 	}
 
+	const resolved = await resolveRef(projectPath, ref, config)
+
 	// URL encode the file path for the API
 	const encodedFilePath = encodeURIComponent(relativePath)
 
-	// Use GitLab API to read raw file contents
-	const apiPath = `projects/${encodedProjectPath}/repository/files/${encodedFilePath}/raw`
+	// Use GitLab API to read raw file contents at the resolved commit
+	const apiPath = `projects/${encodedProjectPath}/repository/files/${encodedFilePath}/raw?ref=${resolved.commit}`
 
 	const response = await fetchFromGitLabAPI<string>(apiPath, {}, config)
 
@@ -124,5 +135,7 @@ export async function readFile(
 	return {
 		absolutePath: `/${projectPath}/${relativePath}`,
 		content: numberedLines,
+		ref: resolved.ref,
+		commit: resolved.commit,
 	}
 }
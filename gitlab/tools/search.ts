@@ -1,4 +1,6 @@
-import { type GitLabConfig, fetchFromGitLabAPI } from '../api-client'
+import type { GitLabConfig } from '../api-client'
+import { fetchOffsetPage } from '../paging'
+import { resolveRef } from '../refs'
 
 export type GitLabSearchArgs = {
 	project: string
@@ -6,6 +8,7 @@ export type GitLabSearchArgs = {
 	path?: string
 	limit?: number
 	offset?: number
+	ref?: string
 }
 
 export const toolDefinition = {
@@ -18,8 +21,10 @@ PARAMETERS:
 - path: Optional path to limit search to specific directory
 - limit: Maximum results (default: 25)
 - offset: Number of results to skip (default: 0)
+- ref: Optional branch or tag to search (default: default branch)
 
-Returns matching files with code snippets.`,
+Returns matching files with line-numbered code snippets and the commit that was searched.
+Each snippet has startLine/endLine, which can be passed to read_file as read_range.`,
 	inputSchema: {
 		type: 'object',
 		properties: {
@@ -43,12 +48,16 @@ Returns matching files with code snippets.`,
 				type: 'number',
 				description: 'Number of results to skip (default: 0)',
 			},
+			ref: {
+				type: 'string',
+				description: 'Branch or tag to search (default: default branch)',
+			},
 		},
 		required: ['project', 'query'],
 	},
 } as const
 
-interface GitLabSearchItem {
+export interface GitLabSearchItem {
 	path: string
 	basename: string
 	ref: string
@@ -57,65 +66,68 @@ interface GitLabSearchItem {
 	data: string
 }
 
+export type SearchChunk = {
+	ref: string
+	startLine: number
+	endLine: number
+	content: string
+	truncated?: boolean
+}
+
 export type SearchResult = {
 	file: string
-	chunks: string[]
+	chunks: SearchChunk[]
 }
 
 export type GitLabSearchResult = {
 	results: SearchResult[]
 	totalCount: number
+	ref: string
+	commit: string
+	hasMore: boolean
+	nextOffset?: number
 }
 
 function extractProjectPath(project: string): string {
 	return project.replace(/\.git$/, '').replace(/^https?:\/\/[^/]+\//, '')
 }
 
-export async function searchCode(
-	args: GitLabSearchArgs,
-	config: GitLabConfig,
-	onProgress?: (message: string) => void,
-): Promise<GitLabSearchResult> {
-	const { project, query, path, limit = 25, offset = 0 } = args
-
-	const projectPath = extractProjectPath(project)
-	const encodedProjectPath = encodeURIComponent(projectPath)
-
-	onProgress?.(`Searching for "${query}" in ${projectPath}...`)
-
-	// Calculate pagination
-	const perPage = Math.min(limit, 100)
-	const page = Math.floor(offset / perPage) + 1
-
-	// Build search endpoint - GitLab project-scoped search
-	let apiPath = `projects/${encodedProjectPath}/search?scope=blobs&search=${encodeURIComponent(query)}&per_page=${perPage}&page=${page}`
-
-	// Add path filter if provided
-	if (path && path !== '.') {
-		apiPath += `&filename=${encodeURIComponent(path)}`
-	}
-
-	const response = await fetchFromGitLabAPI<GitLabSearchItem[]>(apiPath, {}, config)
-
-	if (!response.ok) {
-		throw new Error(
-			`Failed to search code: ${response.status} ${response.statusText || 'Unknown error'}`,
-		)
+const MAX_CHUNK_LENGTH = 2048
+
+/**
+ * Number a search fragment's lines the same way read_file does, stopping at
+ * a line boundary once the fragment gets too long.
+ */
+function toChunk(item: GitLabSearchItem): SearchChunk {
+	const lines = item.data.replace(/\n+$/, '').split('\n')
+	const numberedLines: string[] = []
+	let length = 0
+
+	for (const [idx, line] of lines.entries()) {
+		const numberedLine = `${item.startline + idx}: ${line}`
+		if (numberedLines.length > 0 && length + numberedLine.length > MAX_CHUNK_LENGTH) {
+			break
+		}
+		numberedLines.push(numberedLine)
+		length += numberedLine.length + 1
 	}
 
-	const data = response.data || []
-
-	if (data.length === 0) {
-		return {
-			results: [],
-			totalCount: 0,
-		}
+	return {
+		ref: item.ref,
+		startLine: item.startline,
+		endLine: item.startline + numberedLines.length - 1,
+		content: numberedLines.join('\n'),
+		truncated: numberedLines.length < lines.length || undefined,
 	}
+}
 
-	// Group results by file
-	const fileMap = new Map<string, string[]>()
+/**
+ * Group blob search hits from one project by file.
+ */
+export function groupSearchResults(items: GitLabSearchItem[], projectPath: string): SearchResult[] {
+	const fileMap = new Map<string, SearchChunk[]>()
 
-	for (const item of data) {
+	for (const item of items) {
 		const absPath = `/${projectPath}/${item.path}`
 
 		if (!fileMap.has(absPath)) {
@@ -124,26 +136,56 @@ export async function searchCode(
 
 		const chunks = fileMap.get(absPath)!
 
-		// Process data content with truncation
 		if (item.data) {
-			let fragment = item.data.trim()
-
-			if (fragment.length > 2048) {
-				fragment = `${fragment.slice(0, 2048)}... (truncated)`
-			}
-
-			chunks.push(fragment)
+			chunks.push(toChunk(item))
 		}
 	}
 
 	// Convert map to structured results
-	const results: SearchResult[] = Array.from(fileMap.entries()).map(([file, chunks]) => ({
+	return Array.from(fileMap.entries()).map(([file, chunks]) => ({
 		file,
 		chunks,
 	}))
+}
+
+export async function searchCode(
+	args: GitLabSearchArgs,
+	config: GitLabConfig,
+	onProgress?: (message: string) => void,
+): Promise<GitLabSearchResult> {
+	const { project, query, path, limit = 25, offset = 0, ref } = args
+
+	const projectPath = extractProjectPath(project)
+	const encodedProjectPath = encodeURIComponent(projectPath)
+
+	onProgress?.(`Searching for "${query}" in ${projectPath}...`)
+
+	const resolved = await resolveRef(projectPath, ref, config)
+
+	// GitLab project-scoped search. Search works on ref names rather than
+	// commits, so the branch or tag is passed through as given.
+	const params = new URLSearchParams({ scope: 'blobs', search: query, ref: resolved.ref })
+
+	// Add path filter if provided
+	if (path && path !== '.') {
+		params.set('filename', path)
+	}
+
+	const page = await fetchOffsetPage<GitLabSearchItem>(
+		`projects/${encodedProjectPath}/search`,
+		params,
+		limit,
+		offset,
+		config,
+		'search code',
+	)
 
 	return {
-		results,
-		totalCount: data.length,
+		results: groupSearchResults(page.items, projectPath),
+		totalCount: page.total ?? page.items.length,
+		ref: resolved.ref,
+		commit: resolved.commit,
+		hasMore: page.hasMore,
+		nextOffset: page.nextOffset,
 	}
 }
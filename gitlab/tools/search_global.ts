@@ -0,0 +1,138 @@
+import { type GitLabConfig, fetchFromGitLabAPI } from '../api-client'
+import { fetchOffsetPage } from '../paging'
+import { type GitLabSearchItem, type SearchResult, groupSearchResults } from './search'
+
+export type GitLabGlobalSearchArgs = {
+	query: string
+	group?: string
+	path?: string
+	limit?: number
+	offset?: number
+}
+
+export const toolDefinition = {
+	name: 'search_code_global',
+	description: `Search for code across all projects in a GitLab group, or across the whole GitLab instance.
+
+PARAMETERS:
+- query: Search query - keywords to find in code (required)
+- group: Optional group path (e.g., "my-org/backend" or URL) to search within; searches the whole instance when omitted
+- path: Optional path to limit search to specific directory
+- limit: Maximum results (default: 25)
+- offset: Number of results to skip (default: 0)
+
+Use this when you do not know which project contains the code. Searches each project's default branch.
+Returns matching files with line-numbered code snippets, grouped by project.`,
+	inputSchema: {
+		type: 'object',
+		properties: {
+			query: {
+				type: 'string',
+				description: 'Search query - keywords to find in code',
+			},
+			group: {
+				type: 'string',
+				description:
+					'Group path (e.g., "my-org/backend") or full URL; searches the whole instance when omitted',
+			},
+			path: {
+				type: 'string',
+				description: 'Optional path to limit search to specific directory',
+			},
+			limit: {
+				type: 'number',
+				description: 'Maximum number of results (default: 25)',
+			},
+			offset: {
+				type: 'number',
+				description: 'Number of results to skip (default: 0)',
+			},
+		},
+		required: ['query'],
+	},
+} as const
+
+export type ProjectSearchResults = {
+	project: string
+	results: SearchResult[]
+}
+
+export type GitLabGlobalSearchResult = {
+	scope: string
+	projects: ProjectSearchResults[]
+	totalCount: number
+	hasMore: boolean
+	nextOffset?: number
+}
+
+interface GitLabProject {
+	id: number
+	path_with_namespace: string
+}
+
+function extractGroupPath(group: string): string {
+	return group.replace(/^https?:\/\/[^/]+\//, '').replace(/^groups\//, '').replace(/\/$/, '')
+}
+
+export async function searchCodeGlobal(
+	args: GitLabGlobalSearchArgs,
+	config: GitLabConfig,
+	onProgress?: (message: string) => void,
+): Promise<GitLabGlobalSearchResult> {
+	const { query, group, path, limit = 25, offset = 0 } = args
+
+	const groupPath = group ? extractGroupPath(group) : undefined
+	const scope = groupPath ? `group ${groupPath}` : 'all projects'
+
+	onProgress?.(`Searching for "${query}" in ${scope}...`)
+
+	// Build search endpoint - group-scoped or instance-wide search
+	const searchPath = groupPath ? `groups/${encodeURIComponent(groupPath)}/search` : 'search'
+	const params = new URLSearchParams({ scope: 'blobs', search: query })
+
+	// Add path filter if provided
+	if (path && path !== '.') {
+		params.set('filename', path)
+	}
+
+	const page = await fetchOffsetPage<GitLabSearchItem>(searchPath, params, limit, offset, config, 'search code')
+	const data = page.items
+
+	// Hits only carry a project ID, so look up each project's path once
+	const projectIds = [...new Set(data.map((item) => item.project_id))]
+
+	onProgress?.(`Resolving ${projectIds.length} projects...`)
+
+	const projectPaths = new Map<number, string>(
+		await Promise.all(
+			projectIds.map(async (id): Promise<[number, string]> => {
+				const projectResponse = await fetchFromGitLabAPI<GitLabProject>(
+					`projects/${id}`,
+					{},
+					config,
+				)
+				return [id, projectResponse.data?.path_with_namespace ?? `project-${id}`]
+			}),
+		),
+	)
+
+	// Group hits by project, keeping the order GitLab ranked them in
+	const projects: ProjectSearchResults[] = projectIds.map((id) => {
+		const projectPath = projectPaths.get(id) ?? `project-${id}`
+		return {
+			project: projectPath,
+			results: groupSearchResults(
+				data.filter((item) => item.project_id === id),
+				projectPath,
+			),
+		}
+	})
+
+	return {
+		scope,
+		projects,
+		totalCount: page.total ?? data.length,
+		hasMore: page.hasMore,
+		nextOffset: page.nextOffset,
+	}
+}
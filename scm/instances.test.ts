@@ -0,0 +1,146 @@
+import { afterAll, afterEach, describe, expect, test } from 'bun:test'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+import { argsForInstance, type Instance, instanceForCall, loadInstancesFromFile } from './instances'
+
+function bitbucket(name: string, url: string): Instance {
+	return {
+		name,
+		provider: 'bitbucket',
+		url,
+		default: false,
+		config: { baseURL: url, auth: { type: 'bearer', token: 'token' } },
+	}
+}
+
+function gitlab(name: string, url: string): Instance {
+	return {
+		name,
+		provider: 'gitlab',
+		url,
+		default: false,
+		config: { baseURL: url, auth: { type: 'private-token', token: 'token' } },
+	}
+}
+
+const instances = [
+	bitbucket('bitbucket-eu', 'https://bitbucket-eu.example.com'),
+	bitbucket('bitbucket-us', 'https://bitbucket-us.example.com'),
+	gitlab('gitlab', 'https://gitlab.example.com'),
+]
+
+describe('instanceForCall', () => {
+	test('picks the instance serving a pasted link', () => {
+		expect(
+			instanceForCall(instances, { path: 'https://gitlab.example.com/group/proj/-/blob/main/x.ts' }).name,
+		).toBe('gitlab')
+		expect(
+			instanceForCall(instances, {
+				repository: 'https://bitbucket-us.example.com/projects/PROJ/repos/repo/pull-requests/3',
+			}).name,
+		).toBe('bitbucket-us')
+	})
+
+	test('prefers the named instance', () => {
+		expect(
+			instanceForCall(instances, {
+				path: 'https://bitbucket-us.example.com/projects/PROJ/repos/repo/browse/a.ts',
+				instance: 'bitbucket-eu',
+			}).name,
+		).toBe('bitbucket-eu')
+	})
+
+	test('falls back to the provider the link is shaped like', () => {
+		const single = [gitlab('gitlab', 'https://gitlab.example.com'), bitbucket('bitbucket', 'https://bb.example.com')]
+		expect(instanceForCall(single, { path: 'https://git.example.com/group/proj/-/tree/main/src' }).name).toBe('gitlab')
+	})
+
+	test('rejects links no instance serves', () => {
+		expect(() => instanceForCall(instances, { path: 'https://example.com/about' })).toThrow('No configured instance serves')
+	})
+})
+
+describe('argsForInstance', () => {
+	test('rewrites links into URIs with their ref and change request', () => {
+		const [, , gitlabInstance] = instances
+		expect(
+			argsForInstance(gitlabInstance!, { path: 'https://gitlab.example.com/group/proj/-/blob/main/src/x.ts' }),
+		).toEqual({ path: 'gitlab://group/proj/src/x.ts', ref: 'main' })
+		expect(
+			argsForInstance(gitlabInstance!, {
+				repository: 'https://gitlab.example.com/group/sub/proj/-/merge_requests/42',
+			}),
+		).toEqual({ repository: 'gitlab://group/sub/proj/-', id: 42 })
+	})
+
+	test('keeps the ref the call passes', () => {
+		const instance = bitbucket('bitbucket', 'https://example.com/bitbucket')
+		expect(
+			argsForInstance(instance, {
+				path: 'https://example.com/bitbucket/projects/PROJ/repos/repo/browse/a.ts?at=main',
+				ref: 'develop',
+			}),
+		).toEqual({ path: 'bitbucket://PROJ/repo/a.ts', ref: 'develop' })
+	})
+})
+
+describe('loadInstancesFromFile', () => {
+	const directory = mkdtempSync(join(tmpdir(), 'scm-instances-'))
+	const variables = ['SCM_CONFIG_FILE', 'GITLAB_REQUESTS_PER_SECOND', 'GITLAB_CACHE_SIZE', 'HTTPS_PROXY']
+
+	afterEach(() => {
+		for (const variable of variables) {
+			delete process.env[variable]
+		}
+	})
+
+	afterAll(() => rmSync(directory, { recursive: true, force: true }))
+
+	function load(entry: Record<string, unknown>): Instance {
+		const path = join(directory, 'scm.config.json')
+		writeFileSync(
+			path,
+			JSON.stringify({
+				instances: [{ name: 'gitlab', provider: 'gitlab', auth: { token: 'token' }, ...entry }],
+			}),
+		)
+		process.env.SCM_CONFIG_FILE = path
+		return loadInstancesFromFile()[0] as Instance
+	}
+
+	test('falls back to the environment for settings the entry leaves out', () => {
+		process.env.GITLAB_REQUESTS_PER_SECOND = '4'
+		process.env.GITLAB_CACHE_SIZE = '20'
+		process.env.HTTPS_PROXY = 'http://proxy.example.com:3128'
+
+		const { config } = load({})
+		expect(config.rateLimiter?.requestsPerSecond).toBe(4)
+		expect(config.cache?.maxEntries).toBe(20)
+		expect(config.network?.proxy).toBe('http://proxy.example.com:3128')
+	})
+
+	test('applies the entry\'s proxy, rate limit, retry and cache settings', () => {
+		process.env.GITLAB_REQUESTS_PER_SECOND = '4'
+		process.env.HTTPS_PROXY = 'http://proxy.example.com:3128'
+
+		const { config } = load({
+			proxy: 'http://other-proxy.example.com:8080',
+			noProxy: ['.internal'],
+			requestsPerSecond: 2,
+			maxRetries: 1,
+			cache: { size: 10, dir: join(directory, 'cache') },
+		})
+		expect(config.network?.proxy).toBe('http://other-proxy.example.com:8080')
+		expect(config.network?.noProxy).toEqual(['.internal'])
+		expect(config.rateLimiter?.requestsPerSecond).toBe(2)
+		expect(config.rateLimiter?.retry.maxRetries).toBe(1)
+		expect(config.cache?.maxEntries).toBe(10)
+		expect(config.cache?.directory).toBe(join(directory, 'cache'))
+	})
+
+	test('turns the cache off with cache: false', () => {
+		expect(load({ cache: false }).config.cache).toBeUndefined()
+	})
+})
@@ -0,0 +1,499 @@
+import { readFileSync } from 'node:fs'
+
+import type { BitbucketAuth, BitbucketConfig } from '../bitbucket/api-client'
+import {
+	BITBUCKET_CLOUD_API_URL,
+	ENDPOINT_TTLS as BITBUCKET_ENDPOINT_TTLS,
+	isBitbucketCloudURL,
+	isDeployment,
+} from '../bitbucket/config'
+import type { GitLabAuth, GitLabConfig } from '../gitlab/api-client'
+import { AUTH_TYPES, ENDPOINT_TTLS as GITLAB_ENDPOINT_TTLS, isAuthType } from '../gitlab/config'
+import {
+	createResponseCache,
+	type EndpointTTL,
+	loadResponseCacheFromEnv,
+	type ResponseCache,
+} from '../shared/cache'
+import { loadNetworkConfigFromEnv, type NetworkConfig } from '../shared/network'
+import { createRateLimiter, loadRateLimiterFromEnv, type RateLimiter } from '../shared/rate-limit'
+import { formatURI, isWebURL, parseWebURL, schemeOf } from './uri'
+
+export type Provider = 'bitbucket' | 'gitlab'
+
+/**
+ * A named SCM instance from the config file, with the client configuration
+ * its tools run against.
+ */
+export type Instance =
+	| {
+			name: string
+			provider: 'bitbucket'
+			/** The web URL users paste links from */
+			url: string
+			default: boolean
+			config: BitbucketConfig
+	  }
+	| {
+			name: string
+			provider: 'gitlab'
+			url: string
+			default: boolean
+			config: GitLabConfig
+	  }
+
+/**
+ * One entry of the config file. Secrets can be given inline, but are better
+ * referenced by the name of the environment variable that holds them.
+ */
+interface InstanceEntry {
+	name?: unknown
+	provider?: unknown
+	url?: unknown
+	deployment?: unknown
+	default?: unknown
+	auth?: {
+		type?: unknown
+		token?: unknown
+		tokenEnv?: unknown
+		username?: unknown
+		password?: unknown
+		passwordEnv?: unknown
+	}
+	caBundle?: unknown
+	clientCert?: unknown
+	clientKey?: unknown
+	proxy?: unknown
+	httpProxy?: unknown
+	noProxy?: unknown
+	requestsPerSecond?: unknown
+	maxRetries?: unknown
+	cache?: unknown
+}
+
+const DEFAULT_CONFIG_FILE = 'scm.config.json'
+const GITLAB_DEFAULT_URL = 'https://gitlab.com'
+const BITBUCKET_CLOUD_WEB_URL = 'https://bitbucket.org'
+
+function fail(message: string): never {
+	console.error(`Error: ${message}`)
+	process.exit(1)
+}
+
+function optionalString(entry: string, field: string, value: unknown): string | undefined {
+	if (value === undefined) {
+		return undefined
+	}
+
+	if (typeof value !== 'string' || !value) {
+		fail(`${entry}: ${field} must be a non-empty string`)
+	}
+
+	return value
+}
+
+function optionalNumber(entry: string, field: string, value: unknown, minimum: number): number | undefined {
+	if (value === undefined) {
+		return undefined
+	}
+
+	if (typeof value !== 'number' || !Number.isFinite(value) || value < minimum) {
+		fail(`${entry}: ${field} must be a number of at least ${minimum}`)
+	}
+
+	return value
+}
+
+function optionalStringList(entry: string, field: string, value: unknown): string[] | undefined {
+	if (value === undefined) {
+		return undefined
+	}
+
+	if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+		fail(`${entry}: ${field} must be a list of strings`)
+	}
+
+	return value as string[]
+}
+
+/**
+ * Read a secret given inline or through the environment variable named by
+ * the matching *Env field.
+ */
+function secret(entry: string, field: string, inline: unknown, variable: unknown): string | undefined {
+	const value = optionalString(entry, field, inline)
+	const variableName = optionalString(entry, `${field}Env`, variable)
+
+	if (variableName) {
+		const fromEnv = process.env[variableName]
+		if (!fromEnv) {
+			fail(`${entry}: environment variable ${variableName} (${field}Env) is not set`)
+		}
+		return fromEnv
+	}
+
+	return value
+}
+
+function readPEM(entry: string, field: string, value: unknown): string | undefined {
+	const path = optionalString(entry, field, value)
+	if (!path) {
+		return undefined
+	}
+
+	try {
+		return readFileSync(path, 'utf8')
+	} catch (error) {
+		fail(`${entry}: could not read ${field} (${path}): ${error instanceof Error ? error.message : String(error)}`)
+	}
+}
+
+function bitbucketAuth(entry: string, auth: InstanceEntry['auth'] = {}): BitbucketAuth {
+	const type = optionalString(entry, 'auth.type', auth.type) ?? 'bearer'
+
+	if (type === 'basic') {
+		const username = optionalString(entry, 'auth.username', auth.username)
+		const password = secret(entry, 'auth.password', auth.password, auth.passwordEnv)
+		if (!username || !password) {
+			fail(`${entry}: basic authentication needs auth.username and auth.password (or auth.passwordEnv)`)
+		}
+		return { type, username, password }
+	}
+
+	if (type !== 'bearer') {
+		fail(`${entry}: auth.type must be "bearer" or "basic" for Bitbucket, got "${type}"`)
+	}
+
+	const token = secret(entry, 'auth.token', auth.token, auth.tokenEnv)
+	if (!token) {
+		fail(`${entry}: auth.token (or auth.tokenEnv) must be set`)
+	}
+
+	return { type, token }
+}
+
+function gitLabAuth(entry: string, auth: InstanceEntry['auth'] = {}): GitLabAuth {
+	const type = optionalString(entry, 'auth.type', auth.type) ?? 'private-token'
+
+	if (!isAuthType(type)) {
+		fail(
+			`${entry}: auth.type must be one of ${AUTH_TYPES.map((authType) => `"${authType}"`).join(', ')} for GitLab, got "${type}"`,
+		)
+	}
+
+	const token = secret(entry, 'auth.token', auth.token, auth.tokenEnv)
+	if (!token) {
+		fail(`${entry}: auth.token (or auth.tokenEnv) must be set`)
+	}
+
+	return { type, token }
+}
+
+/**
+ * The entry's proxy and TLS settings, each falling back to the environment
+ * variables the standalone toolkit reads.
+ */
+function instanceNetwork(entry: string, raw: InstanceEntry, fromEnv: NetworkConfig): NetworkConfig {
+	const tls = {
+		ca: readPEM(entry, 'caBundle', raw.caBundle),
+		cert: readPEM(entry, 'clientCert', raw.clientCert),
+		key: readPEM(entry, 'clientKey', raw.clientKey),
+	}
+
+	if (Boolean(tls.cert) !== Boolean(tls.key)) {
+		fail(`${entry}: clientCert and clientKey must be set together`)
+	}
+
+	const noProxy = optionalStringList(entry, 'noProxy', raw.noProxy)
+
+	return {
+		proxy: optionalString(entry, 'proxy', raw.proxy) ?? fromEnv.proxy,
+		httpProxy: optionalString(entry, 'httpProxy', raw.httpProxy) ?? fromEnv.httpProxy,
+		noProxy: noProxy?.map((host) => host.trim().toLowerCase()).filter(Boolean) ?? fromEnv.noProxy,
+		ca: tls.ca ?? fromEnv.ca,
+		cert: tls.cert ?? fromEnv.cert,
+		key: tls.key ?? fromEnv.key,
+	}
+}
+
+/**
+ * The entry's rate limit and retry count, falling back to the limiter built
+ * from the environment.
+ */
+function instanceRateLimiter(entry: string, raw: InstanceEntry, fromEnv: RateLimiter): RateLimiter {
+	const requestsPerSecond = optionalNumber(entry, 'requestsPerSecond', raw.requestsPerSecond, 0)
+	const maxRetries = optionalNumber(entry, 'maxRetries', raw.maxRetries, 0)
+
+	if (requestsPerSecond === undefined && maxRetries === undefined) {
+		return fromEnv
+	}
+
+	return createRateLimiter(requestsPerSecond ?? fromEnv.requestsPerSecond, {
+		...fromEnv.retry,
+		maxRetries: maxRetries === undefined ? fromEnv.retry.maxRetries : Math.floor(maxRetries),
+	})
+}
+
+/**
+ * The entry's response cache: `false` turns it off, `{ size, dir }` replaces
+ * the settings from the environment, and no entry keeps them.
+ */
+function instanceCache(
+	entry: string,
+	raw: InstanceEntry,
+	fromEnv: ResponseCache | undefined,
+	ttls: EndpointTTL[],
+): ResponseCache | undefined {
+	if (raw.cache === undefined) {
+		return fromEnv
+	}
+
+	if (raw.cache === false) {
+		return undefined
+	}
+
+	if (typeof raw.cache !== 'object' || raw.cache === null) {
+		fail(`${entry}: cache must be false or an object with size and dir`)
+	}
+
+	const { size, dir } = raw.cache as { size?: unknown; dir?: unknown }
+	const maxEntries = optionalNumber(entry, 'cache.size', size, 1)
+
+	return createResponseCache(
+		ttls,
+		maxEntries === undefined ? fromEnv?.maxEntries : Math.floor(maxEntries),
+		optionalString(entry, 'cache.dir', dir) ?? fromEnv?.directory,
+	)
+}
+
+function parseInstance(raw: InstanceEntry, index: number): Instance {
+	const name = raw.name
+	if (typeof name !== 'string' || !/^[A-Za-z0-9_-]+$/.test(name)) {
+		fail(`instances[${index}]: name must be letters, digits, "-" or "_"`)
+	}
+
+	const entry = `instance "${name}"`
+	const url = optionalString(entry, 'url', raw.url)?.replace(/\/$/, '')
+	const isDefault = raw.default === true
+
+	if (raw.provider === 'bitbucket') {
+		const deploymentSetting = optionalString(entry, 'deployment', raw.deployment)
+		if (deploymentSetting !== undefined && !isDeployment(deploymentSetting)) {
+			fail(`${entry}: deployment must be "server" or "cloud", got "${deploymentSetting}"`)
+		}
+
+		const isCloudURL = url ? isBitbucketCloudURL(url) : false
+		const deployment = deploymentSetting ?? (isCloudURL ? 'cloud' : 'server')
+
+		if (deployment === 'server' && !url) {
+			fail(`${entry}: url must be set for Bitbucket Server`)
+		}
+
+		return {
+			name,
+			provider: 'bitbucket',
+			url: url && !isCloudURL ? url : BITBUCKET_CLOUD_WEB_URL,
+			default: isDefault,
+			config: {
+				baseURL: deployment === 'cloud' && (!url || isCloudURL) ? BITBUCKET_CLOUD_API_URL : (url ?? ''),
+				auth: bitbucketAuth(entry, raw.auth),
+				deployment,
+				network: instanceNetwork(entry, raw, loadNetworkConfigFromEnv('BITBUCKET')),
+				rateLimiter: instanceRateLimiter(entry, raw, loadRateLimiterFromEnv('BITBUCKET')),
+				cache: instanceCache(
+					entry,
+					raw,
+					loadResponseCacheFromEnv('BITBUCKET', BITBUCKET_ENDPOINT_TTLS),
+					BITBUCKET_ENDPOINT_TTLS,
+				),
+			},
+		}
+	}
+
+	if (raw.provider === 'gitlab') {
+		return {
+			name,
+			provider: 'gitlab',
+			url: url ?? GITLAB_DEFAULT_URL,
+			default: isDefault,
+			config: {
+				baseURL: url ?? GITLAB_DEFAULT_URL,
+				auth: gitLabAuth(entry, raw.auth),
+				network: instanceNetwork(entry, raw, loadNetworkConfigFromEnv('GITLAB')),
+				rateLimiter: instanceRateLimiter(entry, raw, loadRateLimiterFromEnv('GITLAB')),
+				cache: instanceCache(entry, raw, loadResponseCacheFromEnv('GITLAB', GITLAB_ENDPOINT_TTLS), GITLAB_ENDPOINT_TTLS),
+			},
+		}
+	}
+
+	fail(`${entry}: provider must be "bitbucket" or "gitlab"`)
+}
+
+/**
+ * Load the instances listed in the JSON file at SCM_CONFIG_FILE (default
+ * ./scm.config.json). Prints an error and exits when the file is missing or
+ * invalid, so it is only meant to be called from entry points.
+ */
+export function loadInstancesFromFile(): Instance[] {
+	const path = process.env.SCM_CONFIG_FILE || DEFAULT_CONFIG_FILE
+
+	let parsed: { instances?: unknown }
+	try {
+		parsed = JSON.parse(readFileSync(path, 'utf8'))
+	} catch (error) {
+		fail(`could not read the instance config ${path}: ${error instanceof Error ? error.message : String(error)}`)
+	}
+
+	if (!Array.isArray(parsed.instances) || parsed.instances.length === 0) {
+		fail(`${path} must list at least one entry under "instances"`)
+	}
+
+	const instances = parsed.instances.map((raw: InstanceEntry, index: number) => parseInstance(raw, index))
+
+	const names = new Set<string>()
+	for (const instance of instances) {
+		if (names.has(instance.name)) {
+			fail(`instance name "${instance.name}" is used more than once`)
+		}
+		names.add(instance.name)
+	}
+
+	for (const provider of ['bitbucket', 'gitlab'] as const) {
+		if (instances.filter((instance) => instance.provider === provider && instance.default).length > 1) {
+			fail(`only one ${provider} instance can be the default`)
+		}
+	}
+
+	return instances
+}
+
+/**
+ * Pick the instance for a tool call: the one named by `instance`, else the
+ * one whose URL prefixes a URL pasted into any argument, else the provider's
+ * default (or only) instance.
+ */
+export function resolveInstance(
+	instances: Instance[],
+	provider: Provider,
+	args: Record<string, unknown>,
+): Instance {
+	const candidates = instances.filter((instance) => instance.provider === provider)
+
+	if (candidates.length === 0) {
+		throw new Error(`No ${provider} instance is configured`)
+	}
+
+	if (typeof args.instance === 'string') {
+		const named = candidates.find((instance) => instance.name === args.instance)
+		if (!named) {
+			throw new Error(
+				`Unknown ${provider} instance "${args.instance}". Configured: ${candidates.map((instance) => instance.name).join(', ')}`,
+			)
+		}
+		return named
+	}
+
+	const pastedURLs = Object.values(args).filter(
+		(value): value is string => typeof value === 'string' && /^https?:\/\//.test(value),
+	)
+
+	for (const pasted of pastedURLs) {
+		const match = candidates.find((instance) => sameSite(pasted, instance.url))
+		if (match) {
+			return match
+		}
+	}
+
+	const fallback = candidates.find((instance) => instance.default) ?? (candidates.length === 1 ? candidates[0] : undefined)
+	if (!fallback) {
+		throw new Error(
+			`Several ${provider} instances are configured; pass instance as one of: ${candidates.map((instance) => instance.name).join(', ')}`,
+		)
+	}
+
+	return fallback
+}
+
+/**
+ * Pick the instance for a call of the unified toolset: the named instance,
+ * else the one serving a link pasted from a web UI (matched by host), else
+ * the default instance of the provider named by a bitbucket:// or gitlab://
+ * URI argument or by the shape of the link, else the only provider's.
+ */
+export function instanceForCall(instances: Instance[], args: Record<string, unknown>): Instance {
+	if (typeof args.instance === 'string') {
+		const named = instances.find((instance) => instance.name === args.instance)
+		if (!named) {
+			throw new Error(
+				`Unknown instance "${args.instance}". Configured: ${instances.map((instance) => instance.name).join(', ')}`,
+			)
+		}
+		return named
+	}
+
+	const links = Object.values(args).filter((value): value is string => typeof value === 'string' && isWebURL(value))
+
+	for (const link of links) {
+		const match = instances.find((instance) => sameSite(link, instance.url))
+		if (match) {
+			return match
+		}
+	}
+
+	const schemes = Object.values(args).flatMap((value) => {
+		const scheme = typeof value !== 'string' ? undefined : isWebURL(value) ? parseWebURL(value)?.provider : schemeOf(value)
+		return scheme ? [scheme] : []
+	})
+
+	if (links.length > 0 && schemes.length === 0) {
+		throw new Error(`No configured instance serves ${links[0]}. Configured: ${instances.map((instance) => instance.url).join(', ')}`)
+	}
+	const providers = new Set(instances.map((instance) => instance.provider))
+	const provider = schemes[0] ?? (providers.size === 1 ? instances[0]?.provider : undefined)
+
+	if (!provider) {
+		throw new Error('Pass a bitbucket:// or gitlab:// URI, or the instance to use (see list_instances)')
+	}
+
+	return resolveInstance(instances, provider, args)
+}
+
+/**
+ * Rewrite links pasted from the instance's web UI into its provider's URIs,
+ * so the tools read them like any other URI. The ref and change request ID
+ * in a link are used unless the call passes its own.
+ */
+export function argsForInstance(instance: Instance, args: Record<string, unknown>): Record<string, unknown> {
+	const rewritten: Record<string, unknown> = { ...args }
+
+	for (const [name, value] of Object.entries(args)) {
+		if (typeof value !== 'string' || !isWebURL(value)) {
+			continue
+		}
+
+		const location = parseWebURL(value, sameSite(value, instance.url) ? instance.url : undefined)
+		if (!location || location.provider !== instance.provider) {
+			continue
+		}
+
+		rewritten[name] = formatURI(location.provider, location.repository, location.path)
+		if (location.ref !== undefined && args.ref === undefined) {
+			rewritten.ref = location.ref
+		}
+		if (location.changeRequest !== undefined && args.id === undefined) {
+			rewritten.id = location.changeRequest
+		}
+	}
+
+	return rewritten
+}
+
+function sameSite(pasted: string, instanceURL: string): boolean {
+	try {
+		const url = new URL(pasted)
+		const base = new URL(instanceURL)
+		return url.host === base.host && url.pathname.startsWith(base.pathname.replace(/\/$/, ''))
+	} catch {
+		return false
+	}
+}
@@ -0,0 +1,218 @@
+#!/usr/bin/env bun
+import { Server } from '@modelcontextprotocol/sdk/server/index.js'
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
+import {
+	CallToolRequestSchema,
+	ListToolsRequestSchema,
+	type ServerNotification,
+} from '@modelcontextprotocol/sdk/types.js'
+
+import { TOOL_TIMEOUTS_MS as BITBUCKET_TOOL_TIMEOUTS } from '../bitbucket/config'
+import { TOOL_TIMEOUTS_MS as GITLAB_TOOL_TIMEOUTS } from '../gitlab/config'
+import { loadHTTPOptionsFromEnv, serveHTTP } from '../shared/http'
+import { verifyTLS } from '../shared/network'
+import { createThrottleStats, withThrottleReport } from '../shared/rate-limit'
+import { startToolTimer, type ToolTimer } from '../shared/timeouts'
+import { argsForInstance, type Instance, instanceForCall, loadInstancesFromFile, type Provider } from './instances'
+import { createSourceProvider, type SourceTool, TOOLS } from './toolset'
+import {
+	listInstances,
+	type ListInstancesArgs,
+	toolDefinition as listInstancesTool,
+} from './tools/list_instances'
+
+const instances = loadInstancesFromFile()
+const httpOptions = loadHTTPOptionsFromEnv('SCM')
+
+// Each toolkit times its tools by its own names; these run under another
+const TIMER_NAMES: Record<Provider, Record<string, string>> = {
+	bitbucket: { get_change_request: 'get_pull_request' },
+	gitlab: { get_change_request: 'get_merge_request', search_code: 'search_code_global' },
+}
+
+function startTimer(provider: Provider, toolName: string, signal: AbortSignal): ToolTimer {
+	const name = TIMER_NAMES[provider][toolName] ?? toolName
+	return startToolTimer(name, signal, provider === 'gitlab' ? GITLAB_TOOL_TIMEOUTS : BITBUCKET_TOOL_TIMEOUTS)
+}
+
+function supports(instance: Instance, tool: SourceTool): boolean {
+	return createSourceProvider(instance).supports(tool.definition.name)
+}
+
+/**
+ * Add the optional `instance` argument that routes a call to one of the
+ * instances able to run the tool, and the optional `fresh` argument that
+ * makes it revalidate cached responses instead of reusing them.
+ */
+function describeTool(tool: SourceTool) {
+	const names = instances.filter((instance) => supports(instance, tool)).map((instance) => instance.name)
+
+	// Add the arguments to the end of the PARAMETERS list
+	const added = [
+		`- instance: The instance to use, one of ${names.join(', ')} (optional; default: the default instance of the URI's provider)`,
+		'- fresh: Ask the server again instead of reusing recently cached responses (optional; default: false)',
+	]
+	const [summary = '', parameters = '', ...rest] = tool.definition.description.split('\n\n')
+
+	return {
+		name: tool.definition.name,
+		description: [summary, [parameters, ...added].join('\n'), ...rest].join('\n\n'),
+		inputSchema: {
+			...tool.definition.inputSchema,
+			properties: {
+				...tool.definition.inputSchema.properties,
+				instance: {
+					type: 'string',
+					enum: names,
+					description: 'The instance to use (see list_instances)',
+				},
+				fresh: {
+					type: 'boolean',
+					description: 'Ask the server again instead of reusing recently cached responses (default: false)',
+				},
+			},
+		},
+	}
+}
+
+/**
+ * Forward a tool's progress messages as MCP progress notifications, when the
+ * client asked for them by sending a progress token.
+ */
+function progressReporter(
+	progressToken: string | number | undefined,
+	sendNotification: (notification: ServerNotification) => Promise<void>,
+): ((message: string) => void) | undefined {
+	if (progressToken === undefined) {
+		return undefined
+	}
+
+	let progress = 0
+	return (message) => {
+		progress++
+		sendNotification({
+			method: 'notifications/progress',
+			params: { progressToken, progress, message },
+		}).catch(() => {
+			// Progress is advisory; a closed transport must not fail the tool
+		})
+	}
+}
+
+function createMCPServer(): Server {
+	const server = new Server(
+		{
+			name: 'scm-server',
+			version: '1.0.0',
+		},
+		{
+			capabilities: {
+				tools: {},
+			},
+		},
+	)
+
+	server.setRequestHandler(ListToolsRequestSchema, async () => {
+		const tools = TOOLS.filter((tool) => instances.some((instance) => supports(instance, tool))).map(
+			describeTool,
+		)
+
+		return {
+			tools: [listInstancesTool, ...tools],
+		}
+	})
+
+	server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+		const name = request.params.name
+		const args = request.params.arguments ?? {}
+		let timer: ToolTimer | undefined
+
+		try {
+			if (name === listInstancesTool.name) {
+				const result = listInstances(args as ListInstancesArgs, instances, (instance) =>
+					TOOLS.filter((tool) => supports(instance, tool)).map((tool) => tool.definition.name),
+				)
+				return {
+					content: [
+						{
+							type: 'text',
+							text: JSON.stringify(result, null, 2),
+						},
+					],
+				}
+			}
+
+			const tool = TOOLS.find((candidate) => candidate.definition.name === name)
+			if (!tool) {
+				throw new Error(`Unknown tool: ${name}`)
+			}
+
+			const instance = instanceForCall(instances, args)
+			timer = startTimer(instance.provider, name, extra.signal)
+
+			// Throttling is reported per call, while each instance's rate limiter is shared
+			const throttle = createThrottleStats()
+			const source = createSourceProvider(instance, {
+				throttle,
+				signal: timer.signal,
+				deadline: timer.deadline,
+				fresh: args.fresh === true,
+			})
+
+			if (!source.supports(tool.definition.name)) {
+				throw new Error(`${name} is not available on ${instance.name} (Bitbucket Cloud)`)
+			}
+
+			const onProgress = progressReporter(request.params._meta?.progressToken, extra.sendNotification)
+
+			const result = await tool.run(argsForInstance(instance, args), source, onProgress)
+			return {
+				content: [
+					{
+						type: 'text',
+						text: JSON.stringify(withThrottleReport({ instance: instance.name, ...result }, throttle), null, 2),
+					},
+				],
+			}
+		} catch (error) {
+			const message =
+				timer?.signal.aborted && !extra.signal.aborted
+					? `${name} timed out after ${timer.abortAfterMs / 1000} seconds`
+					: error instanceof Error
+						? error.message
+						: String(error)
+
+			return {
+				content: [
+					{
+						type: 'text',
+						text: `Error: ${message}`,
+					},
+				],
+				isError: true,
+			}
+		}
+	})
+
+	return server
+}
+
+async function main() {
+	for (const instance of instances) {
+		await verifyTLS(instance.config.baseURL, instance.config.network)
+	}
+
+	if (httpOptions) {
+		await serveHTTP(httpOptions, () => createMCPServer())
+		return
+	}
+
+	const transport = new StdioServerTransport()
+	await createMCPServer().connect(transport)
+	console.error(`SCM MCP Server running on stdio with ${instances.length} instances`)
+}
+
+main().catch((error) => {
+	console.error('Fatal error:', error)
+	process.exit(1)
+})
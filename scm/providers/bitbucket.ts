@@ -0,0 +1,294 @@
+import type { BitbucketConfig } from '../../bitbucket/api-client'
+import { CLOUD_TOOLS } from '../../bitbucket/config'
+import { blameFile } from '../../bitbucket/tools/blame'
+import { searchCode } from '../../bitbucket/tools/code_search'
+import { compareRefs } from '../../bitbucket/tools/compare_refs'
+import { fileHistory } from '../../bitbucket/tools/file_history'
+import { getPullRequest } from '../../bitbucket/tools/get_pull_request'
+import { globFiles } from '../../bitbucket/tools/glob'
+import { listBranches } from '../../bitbucket/tools/list_branches'
+import { listDirectory } from '../../bitbucket/tools/list_directory'
+import { listPullRequests } from '../../bitbucket/tools/list_pull_requests'
+import { listTags } from '../../bitbucket/tools/list_tags'
+import { readFile } from '../../bitbucket/tools/read'
+import { searchRepositories } from '../../bitbucket/tools/search_repositories'
+import type { ChangeRequestState, Reviewer, SourceProvider } from '../source-provider'
+import { formatURI } from '../uri'
+import { toDiffPage } from './diff'
+
+const PULL_REQUEST_STATES = {
+	open: 'OPEN',
+	merged: 'MERGED',
+	closed: 'DECLINED',
+	all: 'ALL',
+} as const
+
+const REVIEWER_STATUSES: Record<string, Reviewer['status']> = {
+	APPROVED: 'approved',
+	NEEDS_WORK: 'needs_work',
+}
+
+function splitRepository(repository: string): { project: string; repository: string } {
+	const [project = '', slug = ''] = repository.split('/')
+	return { project, repository: slug }
+}
+
+function stateOf(state: string): ChangeRequestState {
+	return state === 'OPEN' ? 'open' : state === 'MERGED' ? 'merged' : 'closed'
+}
+
+/**
+ * Strip the "/PROJ/repo/" prefix the Bitbucket tools put on file paths.
+ */
+function relativePath(repository: string, path: string): string {
+	const prefix = `/${repository}/`
+	return path.startsWith(prefix) ? path.slice(prefix.length) : path.replace(/^\/+/, '')
+}
+
+/**
+ * Serve one Bitbucket Server, Data Center or Cloud instance through the
+ * SourceProvider operations.
+ */
+export function createBitbucketProvider(config: BitbucketConfig): SourceProvider {
+	const uri = (repository: string, path?: string) => formatURI('bitbucket', repository, path)
+
+	return {
+		provider: 'bitbucket',
+
+		supports(operation) {
+			return config.deployment !== 'cloud' || CLOUD_TOOLS.has(operation)
+		},
+
+		async readFile({ repository, path, ref, range }, onProgress) {
+			const result = await readFile(
+				{ ...splitRepository(repository), path, ref, read_range: range },
+				config,
+				onProgress,
+			)
+
+			return {
+				uri: uri(repository, path),
+				content: result.content,
+				ref: result.ref,
+				commit: result.commit,
+			}
+		},
+
+		async listDirectory({ repository, path, ref, limit, offset }, onProgress) {
+			const result = await listDirectory(
+				{ ...splitRepository(repository), path: path.replace(/\/+$/, '') || undefined, ref, limit, offset },
+				config,
+				onProgress,
+			)
+			const directory = path ? `${path.replace(/\/+$/, '')}/` : ''
+
+			return {
+				uri: uri(repository, directory),
+				entries: result.entries.map((entry) => ({
+					uri: uri(repository, `${directory}${entry.name}`),
+					name: entry.name.replace(/\/$/, ''),
+					type: entry.name.endsWith('/') ? 'directory' : 'file',
+					size: entry.size,
+				})),
+				ref: result.ref,
+				commit: result.commit,
+				hasMore: result.hasMore,
+				nextOffset: result.nextOffset,
+			}
+		},
+
+		async globFiles({ repository, pattern, ref, limit, offset }, onProgress) {
+			const result = await globFiles(
+				{ ...splitRepository(repository), filePattern: pattern, ref, limit, offset },
+				config,
+				onProgress,
+			)
+
+			return {
+				files: result.files.map((file) => uri(repository, relativePath(repository, file))),
+				ref: result.ref,
+				commit: result.commit,
+				hasMore: result.hasMore,
+				nextOffset: result.hasMore ? offset + result.files.length : undefined,
+				warning: result.warning,
+			}
+		},
+
+		async searchCode({ query, namespace, repository, path, limit, offset }, onProgress) {
+			const scope = repository ? splitRepository(repository) : { project: namespace }
+			const result = await searchCode(
+				{
+					query,
+					...scope,
+					fileGlob: path ? `${path.replace(/\/+$/, '')}/**` : undefined,
+					limit,
+					offset,
+				},
+				config,
+				onProgress,
+			)
+
+			return {
+				matches: result.files.map((hit) => {
+					const hitRepository = `${hit.repository.project.key}/${hit.repository.slug}`
+					return {
+						uri: uri(hitRepository, hit.file),
+						snippets: hit.hitContexts
+							.filter((lines) => lines.length > 0)
+							.map((lines) => ({
+								startLine: lines[0]?.line ?? 0,
+								endLine: lines[lines.length - 1]?.line ?? 0,
+								content: lines.map((line) => `${line.line}: ${line.text}`).join('\n'),
+							})),
+					}
+				}),
+				totalCount: result.totalCount,
+				hasMore: result.hasMore,
+				nextOffset: result.nextOffset,
+			}
+		},
+
+		async searchRepositories({ query, limit }, onProgress) {
+			const result = await searchRepositories({ query, limit }, config, onProgress)
+
+			return {
+				repositories: result.repositories.map((repository) => ({
+					uri: uri(`${repository.project.key}/${repository.slug}`),
+					name: repository.name,
+					description: repository.description,
+				})),
+				hasMore: result.totalCount > result.repositories.length,
+			}
+		},
+
+		async listBranches({ repository, ...options }, onProgress) {
+			return listBranches({ ...splitRepository(repository), ...options }, config, onProgress)
+		},
+
+		async listTags({ repository, ...options }, onProgress) {
+			return listTags({ ...splitRepository(repository), ...options }, config, onProgress)
+		},
+
+		async fileHistory({ repository, path, ...options }, onProgress) {
+			const result = await fileHistory(
+				{ ...splitRepository(repository), path, ...options },
+				config,
+				onProgress,
+			)
+
+			return {
+				uri: uri(repository, path),
+				ref: result.ref,
+				commit: result.commit,
+				commits: result.commits.map(({ pullRequest, ...commit }) => ({
+					...commit,
+					changeRequest: pullRequest && { ...pullRequest, state: stateOf(pullRequest.state) },
+				})),
+				hasMore: result.hasMore,
+				nextOffset: result.hasMore ? options.offset + result.commits.length : undefined,
+				warning: result.warning,
+			}
+		},
+
+		async blameFile({ repository, path, ref, range }, onProgress) {
+			const result = await blameFile(
+				{ ...splitRepository(repository), path, ref, read_range: range },
+				config,
+				onProgress,
+			)
+
+			return {
+				uri: uri(repository, path),
+				ref: result.ref,
+				commit: result.commit,
+				hunks: result.hunks,
+				truncated: result.truncated,
+				nextLine: result.nextLine,
+			}
+		},
+
+		async compareRefs({ repository, ...options }, onProgress) {
+			const result = await compareRefs({ ...splitRepository(repository), ...options }, config, onProgress)
+
+			return {
+				repository: uri(repository),
+				from: result.from,
+				to: result.to,
+				commits: result.commits,
+				hasMoreCommits: result.hasMoreCommits,
+				diff: toDiffPage('bitbucket', repository, result.diff),
+			}
+		},
+
+		async listChangeRequests({ repository, state, ...options }, onProgress) {
+			const result = await listPullRequests(
+				{ ...splitRepository(repository), state: PULL_REQUEST_STATES[state], ...options },
+				config,
+				onProgress,
+			)
+
+			return {
+				changeRequests: result.pullRequests.map(({ createdDate, updatedDate, ...pullRequest }) => ({
+					...pullRequest,
+					state: stateOf(pullRequest.state),
+					createdAt: createdDate,
+					updatedAt: updatedDate,
+				})),
+				hasMore: result.hasMore,
+				nextOffset: result.nextOffset,
+			}
+		},
+
+		async getChangeRequest({ repository, id, ...options }, onProgress) {
+			const result = await getPullRequest(
+				{ ...splitRepository(repository), id, ...options },
+				config,
+				onProgress,
+			)
+
+			return {
+				id: result.id,
+				title: result.title,
+				state: stateOf(result.state),
+				author: result.author,
+				sourceBranch: result.sourceBranch,
+				targetBranch: result.targetBranch,
+				createdAt: result.createdDate,
+				updatedAt: result.updatedDate,
+				url: result.url,
+				repository: uri(repository),
+				description: result.description,
+				sourceCommit: result.sourceCommit,
+				targetCommit: result.targetCommit,
+				reviewers: result.participants
+					.filter((participant) => participant.role === 'REVIEWER')
+					.map((participant) => ({
+						user: participant.user,
+						status: REVIEWER_STATUSES[participant.status] ?? 'pending',
+					})),
+				// Only comments carry content; approvals and pushes are covered by
+				// the reviewers and commits
+				comments: result.activities.flatMap((activity) =>
+					activity.comment === undefined
+						? []
+						: [
+								{
+									author: activity.user,
+									date: activity.date,
+									body: activity.comment,
+									uri: activity.path ? uri(repository, activity.path) : undefined,
+									line: activity.line,
+									replies: (activity.replies ?? []).map((reply) => ({
+										author: reply.user,
+										date: reply.date,
+										body: reply.comment,
+									})),
+								},
+							],
+				),
+				diff: toDiffPage('bitbucket', repository, result.diff),
+				warning: result.warning,
+			}
+		},
+	}
+}
@@ -0,0 +1,38 @@
+import type { Provider } from '../instances'
+import type { DiffPage } from '../source-provider'
+import { formatURI } from '../uri'
+
+/**
+ * The diff page shape both toolkits return, with repository-relative paths.
+ */
+interface ProviderDiffPage {
+	files: Array<{
+		path: string
+		oldPath?: string
+		status: 'added' | 'deleted' | 'modified' | 'renamed'
+		additions: number
+		deletions: number
+		binary?: boolean
+	}>
+	diffs: Array<{ path: string; diff: string; truncated?: boolean }>
+	hasMore: boolean
+	nextDiffOffset?: number
+	truncated?: boolean
+}
+
+export function toDiffPage(provider: Provider, repository: string, page: ProviderDiffPage): DiffPage {
+	return {
+		files: page.files.map(({ path, oldPath, ...change }) => ({
+			uri: formatURI(provider, repository, path),
+			oldURI: oldPath ? formatURI(provider, repository, oldPath) : undefined,
+			...change,
+		})),
+		diffs: page.diffs.map(({ path, ...diff }) => ({
+			uri: formatURI(provider, repository, path),
+			...diff,
+		})),
+		hasMore: page.hasMore,
+		nextDiffOffset: page.nextDiffOffset,
+		truncated: page.truncated,
+	}
+}
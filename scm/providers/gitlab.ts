@@ -0,0 +1,244 @@
+import type { GitLabConfig } from '../../gitlab/api-client'
+import { blameFile } from '../../gitlab/tools/blame'
+import { compareRefs } from '../../gitlab/tools/compare_refs'
+import { fileHistory } from '../../gitlab/tools/file_history'
+import { getMergeRequest } from '../../gitlab/tools/get_merge_request'
+import { globFiles } from '../../gitlab/tools/glob'
+import { listBranches } from '../../gitlab/tools/list_branches'
+import { listDirectory } from '../../gitlab/tools/list_directory'
+import { listMergeRequests, type MergeRequestSummary } from '../../gitlab/tools/list_merge_requests'
+import { listProjects } from '../../gitlab/tools/list_projects'
+import { listTags } from '../../gitlab/tools/list_tags'
+import { readFile } from '../../gitlab/tools/read'
+import { type SearchResult, searchCode } from '../../gitlab/tools/search'
+import { searchCodeGlobal } from '../../gitlab/tools/search_global'
+import type { ChangeRequestSummary, CodeMatch, SourceProvider } from '../source-provider'
+import { formatURI } from '../uri'
+import { toDiffPage } from './diff'
+
+const MERGE_REQUEST_STATES = {
+	open: 'opened',
+	merged: 'merged',
+	closed: 'closed',
+	all: 'all',
+} as const
+
+/**
+ * Strip the "/group/project/" prefix the GitLab tools put on file paths.
+ */
+function relativePath(project: string, path: string): string {
+	const prefix = `/${project}/`
+	return path.startsWith(prefix) ? path.slice(prefix.length) : path.replace(/^\/+/, '')
+}
+
+function toChangeRequest({ iid, labels, mergedAt, ...mergeRequest }: MergeRequestSummary): ChangeRequestSummary {
+	return {
+		...mergeRequest,
+		id: iid,
+		// "locked" is the brief state of a merge in progress
+		state: mergeRequest.state === 'merged' ? 'merged' : mergeRequest.state === 'closed' ? 'closed' : 'open',
+	}
+}
+
+/**
+ * Serve one GitLab instance through the SourceProvider operations.
+ */
+export function createGitLabProvider(config: GitLabConfig): SourceProvider {
+	const uri = (project: string, path?: string) => formatURI('gitlab', project, path)
+
+	const toMatches = (project: string, results: SearchResult[]): CodeMatch[] =>
+		results.map((result) => ({
+			uri: uri(project, relativePath(project, result.file)),
+			snippets: result.chunks.map(({ startLine, endLine, content }) => ({ startLine, endLine, content })),
+		}))
+
+	return {
+		provider: 'gitlab',
+
+		supports() {
+			return true
+		},
+
+		async readFile({ repository, path, ref, range }, onProgress) {
+			const result = await readFile({ project: repository, path, ref, read_range: range }, config, onProgress)
+
+			return {
+				uri: uri(repository, path),
+				content: result.content,
+				ref: result.ref,
+				commit: result.commit,
+			}
+		},
+
+		async listDirectory({ repository, path, ref, limit, offset }, onProgress) {
+			const result = await listDirectory(
+				{ project: repository, path: path.replace(/\/+$/, '') || undefined, ref, limit, offset },
+				config,
+				onProgress,
+			)
+			const directory = path ? `${path.replace(/\/+$/, '')}/` : ''
+
+			return {
+				uri: uri(repository, directory),
+				entries: result.entries.map((entry) => ({
+					uri: uri(repository, `${directory}${entry}`),
+					name: entry.replace(/\/$/, ''),
+					type: entry.endsWith('/') ? 'directory' : 'file',
+				})),
+				ref: result.ref,
+				commit: result.commit,
+				hasMore: result.hasMore,
+				nextOffset: result.nextOffset,
+			}
+		},
+
+		async globFiles({ repository, pattern, ref, limit, offset }, onProgress) {
+			const result = await globFiles(
+				{ project: repository, filePattern: pattern, ref, limit, offset },
+				config,
+				onProgress,
+			)
+
+			return {
+				files: result.files.map((file) => uri(repository, relativePath(repository, file))),
+				ref: result.ref,
+				commit: result.commit,
+				hasMore: result.hasMore,
+				nextOffset: result.hasMore ? offset + result.files.length : undefined,
+				warning: result.warning,
+			}
+		},
+
+		async searchCode({ query, namespace, repository, path, limit, offset }, onProgress) {
+			if (repository) {
+				const result = await searchCode({ project: repository, query, path, limit, offset }, config, onProgress)
+
+				return {
+					matches: toMatches(repository, result.results),
+					totalCount: result.totalCount,
+					hasMore: result.hasMore,
+					nextOffset: result.nextOffset,
+				}
+			}
+
+			const result = await searchCodeGlobal({ query, group: namespace, path, limit, offset }, config, onProgress)
+
+			return {
+				matches: result.projects.flatMap((project) => toMatches(project.project, project.results)),
+				totalCount: result.totalCount,
+				hasMore: result.hasMore,
+				nextOffset: result.nextOffset,
+			}
+		},
+
+		async searchRepositories({ query, limit }, onProgress) {
+			const projects = await listProjects({ search: query, limit }, config, onProgress)
+
+			return {
+				repositories: projects.map((project) => ({
+					uri: uri(project.path),
+					name: project.name,
+					description: project.description ?? undefined,
+					url: project.url,
+				})),
+				hasMore: projects.length >= limit,
+			}
+		},
+
+		async listBranches({ repository, ...options }, onProgress) {
+			return listBranches({ project: repository, ...options }, config, onProgress)
+		},
+
+		async listTags({ repository, ...options }, onProgress) {
+			const result = await listTags({ project: repository, ...options }, config, onProgress)
+
+			return {
+				tags: result.tags.map(({ name, commit, date }) => ({ name, commit, date })),
+				hasMore: result.hasMore,
+				nextOffset: result.nextOffset,
+			}
+		},
+
+		async fileHistory({ repository, path, ...options }, onProgress) {
+			const result = await fileHistory({ project: repository, path, ...options }, config, onProgress)
+
+			return {
+				uri: uri(repository, path),
+				ref: result.ref,
+				commit: result.commit,
+				commits: result.commits,
+				hasMore: result.hasMore,
+				nextOffset: result.nextOffset,
+			}
+		},
+
+		async blameFile({ repository, path, ref, range }, onProgress) {
+			const result = await blameFile({ project: repository, path, ref, read_range: range }, config, onProgress)
+
+			return {
+				uri: uri(repository, path),
+				ref: result.ref,
+				commit: result.commit,
+				hunks: result.hunks,
+			}
+		},
+
+		async compareRefs({ repository, ...options }, onProgress) {
+			const result = await compareRefs({ project: repository, ...options }, config, onProgress)
+
+			return {
+				repository: uri(repository),
+				from: result.from,
+				to: result.to,
+				commits: result.commits,
+				hasMoreCommits: result.hasMoreCommits,
+				diff: toDiffPage('gitlab', repository, result.diff),
+				warning: result.warning,
+			}
+		},
+
+		async listChangeRequests({ repository, state, ...options }, onProgress) {
+			const result = await listMergeRequests(
+				{ project: repository, state: MERGE_REQUEST_STATES[state], ...options },
+				config,
+				onProgress,
+			)
+
+			return {
+				changeRequests: result.mergeRequests.map(toChangeRequest),
+				hasMore: result.hasMore,
+				nextOffset: result.nextOffset,
+			}
+		},
+
+		async getChangeRequest({ repository, id, ...options }, onProgress) {
+			const { description, headCommit, baseCommit, approvals, discussions, diff, ...mergeRequest } =
+				await getMergeRequest({ project: repository, iid: id, ...options }, config, onProgress)
+
+			return {
+				...toChangeRequest(mergeRequest),
+				repository: uri(repository),
+				description,
+				sourceCommit: headCommit,
+				targetCommit: baseCommit,
+				reviewers: (approvals?.approvedBy ?? []).map((user) => ({ user, status: 'approved' as const })),
+				comments: discussions.flatMap(({ path, line, resolved, notes: [first, ...replies] }) =>
+					first
+						? [
+								{
+									author: first.user,
+									date: first.date,
+									body: first.body,
+									uri: path ? uri(repository, path) : undefined,
+									line,
+									resolved,
+									replies: replies.map((note) => ({ author: note.user, date: note.date, body: note.body })),
+								},
+							]
+						: [],
+				),
+				diff: toDiffPage('gitlab', repository, diff),
+			}
+		},
+	}
+}
@@ -0,0 +1,346 @@
+import type { Provider } from './instances'
+
+/**
+ * The operations of the unified toolset. Each one is also the name of the
+ * tool that runs it.
+ */
+export type Operation =
+	| 'read_file'
+	| 'list_directory'
+	| 'glob_files'
+	| 'search_code'
+	| 'search_repositories'
+	| 'list_branches'
+	| 'list_tags'
+	| 'file_history'
+	| 'blame_file'
+	| 'compare_refs'
+	| 'list_change_requests'
+	| 'get_change_request'
+
+export type ProgressCallback = (message: string) => void
+
+// Arguments. Repositories are "PROJ/repo" or "group/project" and paths are
+// relative to the repository root; the tools parse them out of URIs.
+
+export type ReadFileOptions = {
+	repository: string
+	path: string
+	ref?: string
+	range?: [number, number]
+}
+
+export type ListDirectoryOptions = {
+	repository: string
+	path: string
+	ref?: string
+	limit: number
+	offset: number
+}
+
+export type GlobFilesOptions = {
+	repository: string
+	pattern: string
+	ref?: string
+	limit: number
+	offset: number
+}
+
+export type SearchCodeOptions = {
+	query: string
+	/** A Bitbucket project or workspace, or a GitLab group */
+	namespace?: string
+	repository?: string
+	/** Only search below this directory */
+	path?: string
+	limit: number
+	offset: number
+}
+
+export type SearchRepositoriesOptions = {
+	query: string
+	limit: number
+}
+
+export type ListRefsOptions = {
+	repository: string
+	filter?: string
+	sort?: 'recent' | 'name'
+	limit: number
+	offset: number
+}
+
+export type FileHistoryOptions = {
+	repository: string
+	path: string
+	ref?: string
+	since?: string
+	until?: string
+	limit: number
+	offset: number
+}
+
+export type BlameOptions = ReadFileOptions
+
+export type DiffOptions = {
+	diffOffset?: number
+	diffLimit?: number
+	maxDiffBytes?: number
+}
+
+export type CompareRefsOptions = DiffOptions & {
+	repository: string
+	from: string
+	to: string
+	path?: string
+	commitLimit?: number
+}
+
+export type ChangeRequestState = 'open' | 'merged' | 'closed'
+
+export type ListChangeRequestsOptions = {
+	repository: string
+	state: ChangeRequestState | 'all'
+	author?: string
+	targetBranch?: string
+	limit: number
+	offset: number
+}
+
+export type GetChangeRequestOptions = DiffOptions & {
+	repository: string
+	id: number
+}
+
+// Results. Every file, directory and repository is identified by its URI,
+// which can be passed back to any tool as is.
+
+export type FileContent = {
+	uri: string
+	/** Line-numbered, as "12: text" */
+	content: string
+	ref: string
+	commit: string
+}
+
+export type DirectoryEntry = {
+	uri: string
+	name: string
+	type: 'file' | 'directory'
+	size?: number
+}
+
+export type DirectoryListing = {
+	uri: string
+	entries: DirectoryEntry[]
+	ref: string
+	commit: string
+	hasMore: boolean
+	nextOffset?: number
+}
+
+export type FileList = {
+	files: string[]
+	ref: string
+	commit: string
+	hasMore: boolean
+	nextOffset?: number
+	warning?: string
+}
+
+export type CodeSnippet = {
+	startLine: number
+	endLine: number
+	/** Line-numbered, like read_file */
+	content: string
+}
+
+export type CodeMatch = {
+	uri: string
+	snippets: CodeSnippet[]
+}
+
+export type CodeSearchResults = {
+	matches: CodeMatch[]
+	totalCount: number
+	hasMore: boolean
+	nextOffset?: number
+}
+
+export type RepositoryInfo = {
+	uri: string
+	name: string
+	description?: string
+	url?: string
+}
+
+export type RepositoryList = {
+	repositories: RepositoryInfo[]
+	hasMore: boolean
+}
+
+export type RefInfo = {
+	name: string
+	commit: string
+	date?: string
+}
+
+export type BranchList = {
+	branches: Array<RefInfo & { isDefault: boolean }>
+	hasMore: boolean
+	nextOffset?: number
+}
+
+export type TagList = {
+	tags: RefInfo[]
+	hasMore: boolean
+	nextOffset?: number
+}
+
+export type CommitInfo = {
+	commit: string
+	author: string
+	authorEmail?: string
+	date: string
+	message: string
+}
+
+export type FileHistory = {
+	uri: string
+	ref: string
+	commit: string
+	commits: Array<CommitInfo & { changeRequest?: { id: number; title: string; state: string } }>
+	hasMore: boolean
+	nextOffset?: number
+	warning?: string
+}
+
+export type BlameHunk = {
+	startLine: number
+	endLine: number
+	commit: string
+	author: string
+	date: string
+	message?: string
+	content: string
+}
+
+export type Blame = {
+	uri: string
+	ref: string
+	commit: string
+	hunks: BlameHunk[]
+	/** Set when the time limit stopped the blame early; blame again from nextLine */
+	truncated?: boolean
+	nextLine?: number
+}
+
+export type FileChange = {
+	uri: string
+	oldURI?: string
+	status: 'added' | 'deleted' | 'modified' | 'renamed'
+	additions: number
+	deletions: number
+	binary?: boolean
+}
+
+export type FileDiff = {
+	uri: string
+	diff: string
+	truncated?: boolean
+}
+
+export type DiffPage = {
+	files: FileChange[]
+	diffs: FileDiff[]
+	hasMore: boolean
+	nextDiffOffset?: number
+	truncated?: boolean
+}
+
+export type Comparison = {
+	repository: string
+	from: string
+	to: string
+	commits: CommitInfo[]
+	hasMoreCommits: boolean
+	diff: DiffPage
+	warning?: string
+}
+
+export type ChangeRequestSummary = {
+	id: number
+	title: string
+	state: ChangeRequestState
+	draft?: boolean
+	author: string
+	sourceBranch: string
+	targetBranch: string
+	createdAt: string
+	updatedAt: string
+	url?: string
+}
+
+export type ChangeRequestList = {
+	changeRequests: ChangeRequestSummary[]
+	hasMore: boolean
+	nextOffset?: number
+}
+
+export type Reviewer = {
+	user: string
+	status: 'approved' | 'needs_work' | 'pending'
+}
+
+export type Reply = {
+	author: string
+	date: string
+	body: string
+}
+
+export type Comment = Reply & {
+	/** The file the comment is on, for inline comments */
+	uri?: string
+	line?: number
+	resolved?: boolean
+	replies: Reply[]
+}
+
+export type ChangeRequest = ChangeRequestSummary & {
+	repository: string
+	description: string | null
+	sourceCommit: string
+	targetCommit?: string
+	reviewers: Reviewer[]
+	comments: Comment[]
+	diff: DiffPage
+	warning?: string
+}
+
+/**
+ * One instance's repositories behind the same operations, arguments and
+ * results, whichever provider hosts them. Operations an instance cannot run
+ * (see `supports`) throw.
+ */
+export interface SourceProvider {
+	readonly provider: Provider
+	supports(operation: Operation): boolean
+	readFile(options: ReadFileOptions, onProgress?: ProgressCallback): Promise<FileContent>
+	listDirectory(options: ListDirectoryOptions, onProgress?: ProgressCallback): Promise<DirectoryListing>
+	globFiles(options: GlobFilesOptions, onProgress?: ProgressCallback): Promise<FileList>
+	searchCode(options: SearchCodeOptions, onProgress?: ProgressCallback): Promise<CodeSearchResults>
+	searchRepositories(
+		options: SearchRepositoriesOptions,
+		onProgress?: ProgressCallback,
+	): Promise<RepositoryList>
+	listBranches(options: ListRefsOptions, onProgress?: ProgressCallback): Promise<BranchList>
+	listTags(options: ListRefsOptions, onProgress?: ProgressCallback): Promise<TagList>
+	fileHistory(options: FileHistoryOptions, onProgress?: ProgressCallback): Promise<FileHistory>
+	blameFile(options: BlameOptions, onProgress?: ProgressCallback): Promise<Blame>
+	compareRefs(options: CompareRefsOptions, onProgress?: ProgressCallback): Promise<Comparison>
+	listChangeRequests(
+		options: ListChangeRequestsOptions,
+		onProgress?: ProgressCallback,
+	): Promise<ChangeRequestList>
+	getChangeRequest(options: GetChangeRequestOptions, onProgress?: ProgressCallback): Promise<ChangeRequest>
+}
@@ -0,0 +1,57 @@
+import type { Blame, ProgressCallback, SourceProvider } from '../source-provider'
+import { parseURI } from '../uri'
+
+export type BlameArgs = {
+	path: string
+	read_range?: [number, number]
+	ref?: string
+}
+
+export const toolDefinition = {
+	name: 'blame_file',
+	description: `Show who last changed each line of a file in a Bitbucket or GitLab repository (like git blame).
+
+PARAMETERS:
+- path: The file URI, e.g. "bitbucket://PROJ/repo/src/app.ts" or "gitlab://group/project/src/app.ts" (required)
+- read_range: Optional [startLine, endLine] to blame only a portion of the file
+- ref: Optional branch, tag or commit SHA to blame at (default: default branch)
+
+Returns hunks of consecutive lines last changed by the same commit, with its author and date,
+and the line-numbered content of each hunk. If the time limit cuts a long file short, the result
+has truncated: true and nextLine to pass as the start of read_range.`,
+	inputSchema: {
+		type: 'object',
+		properties: {
+			path: {
+				type: 'string',
+				description: 'The file URI, e.g. "bitbucket://PROJ/repo/src/app.ts"',
+			},
+			read_range: {
+				type: 'array',
+				description: 'Optional [startLine, endLine] to blame only a portion',
+				items: { type: 'number' },
+				minItems: 2,
+				maxItems: 2,
+			},
+			ref: {
+				type: 'string',
+				description: 'Branch, tag or commit SHA to blame at (default: default branch)',
+			},
+		},
+		required: ['path'],
+	},
+} as const
+
+export async function blameFile(
+	args: BlameArgs,
+	source: SourceProvider,
+	onProgress?: ProgressCallback,
+): Promise<Blame> {
+	const { repository, path } = parseURI(args.path, source.provider)
+
+	if (!path) {
+		throw new Error(`"${args.path}" names a repository, not a file`)
+	}
+
+	return source.blameFile({ repository, path, ref: args.ref, range: args.read_range }, onProgress)
+}
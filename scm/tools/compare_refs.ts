@@ -0,0 +1,77 @@
+import type { Comparison, ProgressCallback, SourceProvider } from '../source-provider'
+import { parseURI } from '../uri'
+
+export type CompareRefsArgs = {
+	repository: string
+	from: string
+	to: string
+	commitLimit?: number
+	diffOffset?: number
+	diffLimit?: number
+	maxDiffBytes?: number
+}
+
+export const toolDefinition = {
+	name: 'compare_refs',
+	description: `Compare two branches, tags or commits in a Bitbucket or GitLab repository (like git log/diff from..to).
+
+PARAMETERS:
+- repository: The repository URI, or a file or directory URI to limit the commits and diff to it, e.g. "gitlab://group/project/src" (required)
+- from: The older ref - branch, tag or commit SHA, e.g. "v1.2.0" (required)
+- to: The newer ref - branch, tag or commit SHA, e.g. "v1.3.0" (required)
+- commitLimit: Maximum number of commits to list (default: 100)
+- diffOffset: Index of the first changed file to include a diff for; use nextDiffOffset from the previous call (default: 0)
+- diffLimit: Maximum number of file diffs to include (default: 20)
+- maxDiffBytes: Maximum total size of the included diffs (default: 60000)
+
+Returns the commits in "to" that are not in "from", every changed file's URI with added/removed line counts,
+and unified diffs paged by file. Use this for "what shipped in release X".`,
+	inputSchema: {
+		type: 'object',
+		properties: {
+			repository: {
+				type: 'string',
+				description: 'The repository URI, or a file or directory URI to limit the commits and diff to',
+			},
+			from: {
+				type: 'string',
+				description: 'The older branch, tag or commit SHA',
+			},
+			to: {
+				type: 'string',
+				description: 'The newer branch, tag or commit SHA',
+			},
+			commitLimit: {
+				type: 'number',
+				description: 'Maximum number of commits to list (default: 100)',
+			},
+			diffOffset: {
+				type: 'number',
+				description: 'Index of the first changed file to include a diff for (default: 0)',
+			},
+			diffLimit: {
+				type: 'number',
+				description: 'Maximum number of file diffs to include (default: 20)',
+			},
+			maxDiffBytes: {
+				type: 'number',
+				description: 'Maximum total size of the included diffs (default: 60000)',
+			},
+		},
+		required: ['repository', 'from', 'to'],
+	},
+} as const
+
+export async function compareRefs(
+	args: CompareRefsArgs,
+	source: SourceProvider,
+	onProgress?: ProgressCallback,
+): Promise<Comparison> {
+	const { from, to, commitLimit, diffOffset, diffLimit, maxDiffBytes } = args
+	const { repository, path } = parseURI(args.repository, source.provider)
+
+	return source.compareRefs(
+		{ repository, from, to, path: path || undefined, commitLimit, diffOffset, diffLimit, maxDiffBytes },
+		onProgress,
+	)
+}
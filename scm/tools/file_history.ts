@@ -0,0 +1,68 @@
+import type { FileHistory, ProgressCallback, SourceProvider } from '../source-provider'
+import { parseURI } from '../uri'
+
+export type FileHistoryArgs = {
+	path: string
+	ref?: string
+	since?: string
+	until?: string
+	limit?: number
+	offset?: number
+}
+
+export const toolDefinition = {
+	name: 'file_history',
+	description: `List the commits that changed a file or directory in a Bitbucket or GitLab repository, newest first.
+
+PARAMETERS:
+- path: The file or directory URI, e.g. "bitbucket://PROJ/repo/src/app.ts" or "gitlab://group/project/src" (required)
+- ref: Optional branch, tag or commit SHA to start from (default: default branch)
+- since: Only commits authored on or after this ISO 8601 date, e.g. "2024-01-31" (optional)
+- until: Only commits authored on or before this ISO 8601 date (optional)
+- limit: Maximum results (default: 25)
+- offset: Number of results to skip; use nextOffset from the previous page (default: 0)
+
+Returns commits with author, date and message. On Bitbucket, commits that came in
+through a pull request also name it as changeRequest.`,
+	inputSchema: {
+		type: 'object',
+		properties: {
+			path: {
+				type: 'string',
+				description: 'The file or directory URI, e.g. "bitbucket://PROJ/repo/src/app.ts"',
+			},
+			ref: {
+				type: 'string',
+				description: 'Branch, tag or commit SHA to start from (default: default branch)',
+			},
+			since: {
+				type: 'string',
+				description: 'Only commits authored on or after this ISO 8601 date',
+			},
+			until: {
+				type: 'string',
+				description: 'Only commits authored on or before this ISO 8601 date',
+			},
+			limit: {
+				type: 'number',
+				description: 'Maximum number of results (default: 25)',
+			},
+			offset: {
+				type: 'number',
+				description: 'Number of results to skip (default: 0)',
+			},
+		},
+		required: ['path'],
+	},
+} as const
+
+export async function fileHistory(
+	args: FileHistoryArgs,
+	source: SourceProvider,
+	onProgress?: ProgressCallback,
+): Promise<FileHistory> {
+	const { ref, since, until, limit = 25, offset = 0 } = args
+	const { repository, path } = parseURI(args.path, source.provider)
+
+	return source.fileHistory({ repository, path, ref, since, until, limit, offset }, onProgress)
+}
@@ -0,0 +1,62 @@
+import type { ChangeRequest, ProgressCallback, SourceProvider } from '../source-provider'
+import { parseURI } from '../uri'
+
+export type GetChangeRequestArgs = {
+	repository: string
+	id: number
+	diffOffset?: number
+	diffLimit?: number
+	maxDiffBytes?: number
+}
+
+export const toolDefinition = {
+	name: 'get_change_request',
+	description: `Read a pull request (Bitbucket) or merge request (GitLab): description, reviewers, comments and its diff.
+
+PARAMETERS:
+- repository: The repository URI, e.g. "bitbucket://PROJ/repo" or "gitlab://group/project" (required)
+- id: The pull request ID or merge request IID, as listed by list_change_requests (required)
+- diffOffset: Index of the first changed file to include a diff for; use nextDiffOffset from the previous call (default: 0)
+- diffLimit: Maximum number of file diffs to include (default: 20)
+- maxDiffBytes: Maximum total size of the included diffs (default: 60000)
+
+Comments are threads with their replies; inline comments carry the file URI and line.
+Changed files are listed with added/removed line counts (Bitbucket lists only the current page's files); unified diffs are paged by file.`,
+	inputSchema: {
+		type: 'object',
+		properties: {
+			repository: {
+				type: 'string',
+				description: 'The repository URI, e.g. "bitbucket://PROJ/repo" or "gitlab://group/project"',
+			},
+			id: {
+				type: 'number',
+				description: 'The pull request ID or merge request IID',
+			},
+			diffOffset: {
+				type: 'number',
+				description: 'Index of the first changed file to include a diff for (default: 0)',
+			},
+			diffLimit: {
+				type: 'number',
+				description: 'Maximum number of file diffs to include (default: 20)',
+			},
+			maxDiffBytes: {
+				type: 'number',
+				description: 'Maximum total size of the included diffs (default: 60000)',
+			},
+		},
+		required: ['repository', 'id'],
+	},
+} as const
+
+export async function getChangeRequest(
+	args: GetChangeRequestArgs,
+	source: SourceProvider,
+	onProgress?: ProgressCallback,
+): Promise<ChangeRequest> {
+	const { id, diffOffset, diffLimit, maxDiffBytes } = args
+	const { repository } = parseURI(args.repository, source.provider)
+
+	return source.getChangeRequest({ repository, id, diffOffset, diffLimit, maxDiffBytes }, onProgress)
+}
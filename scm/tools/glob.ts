@@ -0,0 +1,61 @@
+import type { FileList, ProgressCallback, SourceProvider } from '../source-provider'
+import { parseURI } from '../uri'
+
+export type GlobArgs = {
+	repository: string
+	filePattern: string
+	limit?: number
+	offset?: number
+	ref?: string
+}
+
+export const toolDefinition = {
+	name: 'glob_files',
+	description: `Find files matching a glob pattern in a Bitbucket or GitLab repository.
+
+PARAMETERS:
+- repository: The repository URI, e.g. "bitbucket://PROJ/repo" or "gitlab://group/project" (required)
+- filePattern: Glob pattern to match files (required, e.g., "**/*.ts")
+- limit: Maximum results (default: 100)
+- offset: Number of results to skip (default: 0)
+- ref: Optional branch, tag or commit SHA to list (default: default branch)
+
+Returns the URIs of the matching files and the commit they were listed at.`,
+	inputSchema: {
+		type: 'object',
+		properties: {
+			repository: {
+				type: 'string',
+				description: 'The repository URI, e.g. "bitbucket://PROJ/repo" or "gitlab://group/project"',
+			},
+			filePattern: {
+				type: 'string',
+				description: 'Glob pattern to match files (e.g., "**/*.ts", "src/**/*.js")',
+			},
+			limit: {
+				type: 'number',
+				description: 'Maximum number of results (default: 100)',
+			},
+			offset: {
+				type: 'number',
+				description: 'Number of results to skip (default: 0)',
+			},
+			ref: {
+				type: 'string',
+				description: 'Branch, tag or commit SHA to list (default: default branch)',
+			},
+		},
+		required: ['repository', 'filePattern'],
+	},
+} as const
+
+export async function globFiles(
+	args: GlobArgs,
+	source: SourceProvider,
+	onProgress?: ProgressCallback,
+): Promise<FileList> {
+	const { filePattern, limit = 100, offset = 0, ref } = args
+	const { repository } = parseURI(args.repository, source.provider)
+
+	return source.globFiles({ repository, pattern: filePattern, ref, limit, offset }, onProgress)
+}
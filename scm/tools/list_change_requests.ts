@@ -0,0 +1,69 @@
+import type { ChangeRequestList, ChangeRequestState, ProgressCallback, SourceProvider } from '../source-provider'
+import { parseURI } from '../uri'
+
+export type ListChangeRequestsArgs = {
+	repository: string
+	state?: ChangeRequestState | 'all'
+	author?: string
+	targetBranch?: string
+	limit?: number
+	offset?: number
+}
+
+export const toolDefinition = {
+	name: 'list_change_requests',
+	description: `List pull requests (Bitbucket) or merge requests (GitLab) in a repository, newest first.
+
+PARAMETERS:
+- repository: The repository URI, e.g. "bitbucket://PROJ/repo" or "gitlab://group/project" (required)
+- state: open, merged, closed or all (default: open). Declined Bitbucket pull requests count as closed.
+- author: Only change requests opened by this username (optional)
+- targetBranch: Only change requests into this branch, e.g. "main" (optional)
+- limit: Maximum results (default: 25)
+- offset: Number of results to skip; use nextOffset from the previous page (default: 0)
+
+Returns change requests with their ID, title, state, author, source and target branches and dates.
+Use get_change_request to read one in full.`,
+	inputSchema: {
+		type: 'object',
+		properties: {
+			repository: {
+				type: 'string',
+				description: 'The repository URI, e.g. "bitbucket://PROJ/repo" or "gitlab://group/project"',
+			},
+			state: {
+				type: 'string',
+				enum: ['open', 'merged', 'closed', 'all'],
+				description: 'Which change requests to list (default: open)',
+			},
+			author: {
+				type: 'string',
+				description: 'Only change requests opened by this username',
+			},
+			targetBranch: {
+				type: 'string',
+				description: 'Only change requests into this branch',
+			},
+			limit: {
+				type: 'number',
+				description: 'Maximum number of results (default: 25)',
+			},
+			offset: {
+				type: 'number',
+				description: 'Number of results to skip (default: 0)',
+			},
+		},
+		required: ['repository'],
+	},
+} as const
+
+export async function listChangeRequests(
+	args: ListChangeRequestsArgs,
+	source: SourceProvider,
+	onProgress?: ProgressCallback,
+): Promise<ChangeRequestList> {
+	const { state = 'open', author, targetBranch, limit = 25, offset = 0 } = args
+	const { repository } = parseURI(args.repository, source.provider)
+
+	return source.listChangeRequests({ repository, state, author, targetBranch, limit, offset }, onProgress)
+}
@@ -0,0 +1,55 @@
+import type { DirectoryListing, ProgressCallback, SourceProvider } from '../source-provider'
+import { parseURI } from '../uri'
+
+export type ListDirectoryArgs = {
+	path: string
+	limit?: number
+	offset?: number
+	ref?: string
+}
+
+export const toolDefinition = {
+	name: 'list_directory',
+	description: `List the contents of a directory in a Bitbucket or GitLab repository.
+
+PARAMETERS:
+- path: The repository or directory URI, e.g. "bitbucket://PROJ/repo/src" or "gitlab://group/project" (required)
+- limit: Maximum number of entries to return (default: 100)
+- offset: Number of entries to skip (default: 0)
+- ref: Optional branch, tag or commit SHA to list (default: default branch)
+
+Returns the entries with their URIs and whether each is a file or directory, and the commit they were listed at.`,
+	inputSchema: {
+		type: 'object',
+		properties: {
+			path: {
+				type: 'string',
+				description: 'The repository or directory URI, e.g. "bitbucket://PROJ/repo/src"',
+			},
+			limit: {
+				type: 'number',
+				description: 'Maximum number of entries to return (default: 100)',
+			},
+			offset: {
+				type: 'number',
+				description: 'Number of entries to skip (default: 0)',
+			},
+			ref: {
+				type: 'string',
+				description: 'Branch, tag or commit SHA to list (default: default branch)',
+			},
+		},
+		required: ['path'],
+	},
+} as const
+
+export async function listDirectory(
+	args: ListDirectoryArgs,
+	source: SourceProvider,
+	onProgress?: ProgressCallback,
+): Promise<DirectoryListing> {
+	const { limit = 100, offset = 0, ref } = args
+	const { repository, path } = parseURI(args.path, source.provider)
+
+	return source.listDirectory({ repository, path, ref, limit, offset }, onProgress)
+}
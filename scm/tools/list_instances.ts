@@ -0,0 +1,62 @@
+import type { Instance, Provider } from '../instances'
+
+export type ListInstancesArgs = {
+	provider?: Provider
+}
+
+export const toolDefinition = {
+	name: 'list_instances',
+	description: `List the Bitbucket and GitLab instances this server is configured for.
+
+PARAMETERS:
+- provider: Only list instances of "bitbucket" or "gitlab" (optional)
+
+Returns each instance's name, provider, URL and the tools it supports.
+Pass the name as the instance argument of the other tools. Without it, tools
+use the default instance of the provider named by the URI (bitbucket:// or gitlab://).`,
+	inputSchema: {
+		type: 'object',
+		properties: {
+			provider: {
+				type: 'string',
+				enum: ['bitbucket', 'gitlab'],
+				description: 'Only list instances of this provider',
+			},
+		},
+		required: [],
+	},
+} as const
+
+export type InstanceInfo = {
+	name: string
+	provider: Provider
+	url: string
+	deployment?: 'server' | 'cloud'
+	default: boolean
+	tools: string[]
+}
+
+export type ListInstancesResult = {
+	instances: InstanceInfo[]
+}
+
+export function listInstances(
+	args: ListInstancesArgs,
+	instances: Instance[],
+	toolsFor: (instance: Instance) => string[],
+): ListInstancesResult {
+	const { provider } = args
+
+	return {
+		instances: instances
+			.filter((instance) => !provider || instance.provider === provider)
+			.map((instance) => ({
+				name: instance.name,
+				provider: instance.provider,
+				url: instance.url,
+				deployment: instance.provider === 'bitbucket' ? instance.config.deployment : undefined,
+				default: instance.default,
+				tools: toolsFor(instance),
+			})),
+	}
+}
@@ -0,0 +1,63 @@
+import type { ProgressCallback, SourceProvider, TagList } from '../source-provider'
+import { parseURI } from '../uri'
+
+export type ListTagsArgs = {
+	repository: string
+	filter?: string
+	sort?: 'recent' | 'name'
+	limit?: number
+	offset?: number
+}
+
+export const toolDefinition = {
+	name: 'list_tags',
+	description: `List tags in a Bitbucket or GitLab repository.
+
+PARAMETERS:
+- repository: The repository URI, e.g. "bitbucket://PROJ/repo" or "gitlab://group/project" (required)
+- filter: Only tags whose name contains this text (optional)
+- sort: "recent" for most recently created first, or "name" (default: recent)
+- limit: Maximum results (default: 25)
+- offset: Number of results to skip (default: 0)
+
+Returns tags with the commit they point at.
+Use the tag names as the ref argument of the other tools.`,
+	inputSchema: {
+		type: 'object',
+		properties: {
+			repository: {
+				type: 'string',
+				description: 'The repository URI, e.g. "bitbucket://PROJ/repo" or "gitlab://group/project"',
+			},
+			filter: {
+				type: 'string',
+				description: 'Only tags whose name contains this text',
+			},
+			sort: {
+				type: 'string',
+				enum: ['recent', 'name'],
+				description: 'Most recently created first, or alphabetical (default: recent)',
+			},
+			limit: {
+				type: 'number',
+				description: 'Maximum number of results (default: 25)',
+			},
+			offset: {
+				type: 'number',
+				description: 'Number of results to skip (default: 0)',
+			},
+		},
+		required: ['repository'],
+	},
+} as const
+
+export async function listTags(
+	args: ListTagsArgs,
+	source: SourceProvider,
+	onProgress?: ProgressCallback,
+): Promise<TagList> {
+	const { filter, sort = 'recent', limit = 25, offset = 0 } = args
+	const { repository } = parseURI(args.repository, source.provider)
+
+	return source.listTags({ repository, filter, sort, limit, offset }, onProgress)
+}
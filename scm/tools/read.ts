@@ -0,0 +1,55 @@
+import type { FileContent, ProgressCallback, SourceProvider } from '../source-provider'
+import { parseURI } from '../uri'
+
+export type ReadArgs = {
+	path: string
+	read_range?: [number, number]
+	ref?: string
+}
+
+export const toolDefinition = {
+	name: 'read_file',
+	description: `Read file contents from a Bitbucket or GitLab repository.
+
+PARAMETERS:
+- path: The file URI, e.g. "bitbucket://PROJ/repo/src/app.ts" or "gitlab://group/project/src/app.ts" (required)
+- read_range: Optional [startLine, endLine] to read only a portion of the file
+- ref: Optional branch, tag or commit SHA to read from (default: default branch)
+
+Returns file contents with line numbers and the commit they were read at.`,
+	inputSchema: {
+		type: 'object',
+		properties: {
+			path: {
+				type: 'string',
+				description: 'The file URI, e.g. "bitbucket://PROJ/repo/src/app.ts" or "gitlab://group/project/src/app.ts"',
+			},
+			read_range: {
+				type: 'array',
+				description: 'Optional [startLine, endLine] to read only a portion',
+				items: { type: 'number' },
+				minItems: 2,
+				maxItems: 2,
+			},
+			ref: {
+				type: 'string',
+				description: 'Branch, tag or commit SHA to read from (default: default branch)',
+			},
+		},
+		required: ['path'],
+	},
+} as const
+
+export async function readFile(
+	args: ReadArgs,
+	source: SourceProvider,
+	onProgress?: ProgressCallback,
+): Promise<FileContent> {
+	const { repository, path } = parseURI(args.path, source.provider)
+
+	if (!path) {
+		throw new Error(`"${args.path}" names a repository, not a file. Use list_directory to list it.`)
+	}
+
+	return source.readFile({ repository, path, ref: args.ref, range: args.read_range }, onProgress)
+}
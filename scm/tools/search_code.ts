@@ -0,0 +1,67 @@
+import type { CodeSearchResults, ProgressCallback, SourceProvider } from '../source-provider'
+import { parseScope } from '../uri'
+
+export type SearchCodeArgs = {
+	query: string
+	scope?: string
+	limit?: number
+	offset?: number
+}
+
+export const toolDefinition = {
+	name: 'search_code',
+	description: `Search for code in Bitbucket or GitLab repositories.
+
+PARAMETERS:
+- query: Search query - keywords to find in code (required)
+- scope: Where to search, as a URI (optional; default: the whole instance):
+  - a repository, e.g. "bitbucket://PROJ/repo" or "gitlab://group/project"
+  - a directory in a repository, e.g. "gitlab://group/project/src/api"
+  - a Bitbucket project or workspace, e.g. "bitbucket://PROJ", or a GitLab group, e.g. "gitlab://group"
+  - the instance's provider alone, "bitbucket://" or "gitlab://"
+- limit: Maximum results (default: 25)
+- offset: Number of results to skip (default: 0)
+
+Searches each repository's default branch. Bitbucket Cloud needs at least a workspace scope.
+Returns the URIs of matching files with line-numbered snippets. Each snippet has
+startLine/endLine, which can be passed to read_file as read_range.`,
+	inputSchema: {
+		type: 'object',
+		properties: {
+			query: {
+				type: 'string',
+				description: 'Search query - keywords to find in code',
+			},
+			scope: {
+				type: 'string',
+				description:
+					'Repository, directory, project, workspace or group URI to search within, e.g. "bitbucket://PROJ" (default: the whole instance)',
+			},
+			limit: {
+				type: 'number',
+				description: 'Maximum number of results (default: 25)',
+			},
+			offset: {
+				type: 'number',
+				description: 'Number of results to skip (default: 0)',
+			},
+		},
+		required: ['query'],
+	},
+} as const
+
+export async function searchCode(
+	args: SearchCodeArgs,
+	source: SourceProvider,
+	onProgress?: ProgressCallback,
+): Promise<CodeSearchResults> {
+	const { query, scope, limit = 25, offset = 0 } = args
+	const { namespace, repository, path } = scope
+		? parseScope(scope, source.provider)
+		: { namespace: undefined, repository: undefined, path: '' }
+
+	return source.searchCode(
+		{ query, namespace, repository, path: path || undefined, limit, offset },
+		onProgress,
+	)
+}
@@ -0,0 +1,41 @@
+import type { ProgressCallback, RepositoryList, SourceProvider } from '../source-provider'
+
+export type SearchRepositoriesArgs = {
+	query: string
+	limit?: number
+}
+
+export const toolDefinition = {
+	name: 'search_repositories',
+	description: `Search for repositories (Bitbucket) or projects (GitLab) by name.
+
+PARAMETERS:
+- query: Text to find in repository names (required)
+- limit: Maximum results (default: 30)
+
+Returns each repository's URI, which the other tools take as their repository or path argument.`,
+	inputSchema: {
+		type: 'object',
+		properties: {
+			query: {
+				type: 'string',
+				description: 'Text to find in repository names',
+			},
+			limit: {
+				type: 'number',
+				description: 'Maximum number of results (default: 30)',
+			},
+		},
+		required: ['query'],
+	},
+} as const
+
+export async function searchRepositories(
+	args: SearchRepositoriesArgs,
+	source: SourceProvider,
+	onProgress?: ProgressCallback,
+): Promise<RepositoryList> {
+	const { query, limit = 30 } = args
+
+	return source.searchRepositories({ query, limit }, onProgress)
+}
@@ -0,0 +1,79 @@
+import type { ThrottleStats } from '../shared/rate-limit'
+import type { Instance } from './instances'
+import { createBitbucketProvider } from './providers/bitbucket'
+import { createGitLabProvider } from './providers/gitlab'
+import type { Operation, ProgressCallback, SourceProvider } from './source-provider'
+import { blameFile, toolDefinition as blameTool } from './tools/blame'
+import { compareRefs, toolDefinition as compareRefsTool } from './tools/compare_refs'
+import { fileHistory, toolDefinition as fileHistoryTool } from './tools/file_history'
+import { getChangeRequest, toolDefinition as getChangeRequestTool } from './tools/get_change_request'
+import { globFiles, toolDefinition as globTool } from './tools/glob'
+import { listBranches, toolDefinition as listBranchesTool } from './tools/list_branches'
+import { listChangeRequests, toolDefinition as listChangeRequestsTool } from './tools/list_change_requests'
+import { listDirectory, toolDefinition as listDirectoryTool } from './tools/list_directory'
+import { listTags, toolDefinition as listTagsTool } from './tools/list_tags'
+import { readFile, toolDefinition as readTool } from './tools/read'
+import { searchCode, toolDefinition as searchCodeTool } from './tools/search_code'
+import { searchRepositories, toolDefinition as searchRepositoriesTool } from './tools/search_repositories'
+
+/**
+ * A tool of the unified toolset: its MCP definition and the function that
+ * runs it against any instance's SourceProvider.
+ */
+export interface SourceTool {
+	definition: {
+		name: Operation
+		description: string
+		inputSchema: {
+			type: 'object'
+			properties: Record<string, unknown>
+			required?: readonly string[]
+		}
+	}
+	run: (args: Record<string, unknown>, source: SourceProvider, onProgress?: ProgressCallback) => Promise<object>
+}
+
+/**
+ * Pair a definition with the function that runs it, typed by its own args.
+ */
+function sourceTool<Args>(
+	definition: SourceTool['definition'],
+	run: (args: Args, source: SourceProvider, onProgress?: ProgressCallback) => Promise<object>,
+): SourceTool {
+	return {
+		definition,
+		// The client sends the arguments described by the definition's schema
+		run: (args, source, onProgress) => run(args as Args, source, onProgress),
+	}
+}
+
+export const TOOLS: SourceTool[] = [
+	sourceTool(readTool, readFile),
+	sourceTool(listDirectoryTool, listDirectory),
+	sourceTool(globTool, globFiles),
+	sourceTool(searchCodeTool, searchCode),
+	sourceTool(searchRepositoriesTool, searchRepositories),
+	sourceTool(listBranchesTool, listBranches),
+	sourceTool(listTagsTool, listTags),
+	sourceTool(fileHistoryTool, fileHistory),
+	sourceTool(blameTool, blameFile),
+	sourceTool(compareRefsTool, compareRefs),
+	sourceTool(listChangeRequestsTool, listChangeRequests),
+	sourceTool(getChangeRequestTool, getChangeRequest),
+]
+
+/**
+ * Per-call settings layered over the instance's client configuration.
+ */
+export type CallSettings = {
+	throttle?: ThrottleStats
+	signal?: AbortSignal
+	deadline?: number
+	fresh?: boolean
+}
+
+export function createSourceProvider(instance: Instance, call: CallSettings = {}): SourceProvider {
+	return instance.provider === 'bitbucket'
+		? createBitbucketProvider({ ...instance.config, ...call })
+		: createGitLabProvider({ ...instance.config, ...call })
+}
@@ -0,0 +1,92 @@
+import { describe, expect, test } from 'bun:test'
+
+import { parseScope, parseURI, parseWebURL } from './uri'
+
+describe('parseURI', () => {
+	test('reads provider URIs', () => {
+		expect(parseURI('bitbucket://PROJ/repo/src/app.ts', 'bitbucket')).toEqual({
+			provider: 'bitbucket',
+			repository: 'PROJ/repo',
+			path: 'src/app.ts',
+		})
+		expect(parseURI('gitlab://group/sub/project/-/src/app.ts', 'gitlab')).toEqual({
+			provider: 'gitlab',
+			repository: 'group/sub/project',
+			path: 'src/app.ts',
+		})
+	})
+
+	test('reads GitLab file and directory links', () => {
+		expect(parseURI('https://gitlab.example.com/group/proj/-/blob/main/src/x.ts', 'gitlab')).toEqual({
+			provider: 'gitlab',
+			repository: 'group/proj',
+			path: 'src/x.ts',
+		})
+		expect(parseURI('https://gitlab.example.com/group/sub/proj/-/tree/main/src', 'gitlab')).toEqual({
+			provider: 'gitlab',
+			repository: 'group/sub/proj',
+			path: 'src/',
+		})
+	})
+
+	test('reads Bitbucket Server and Cloud links', () => {
+		expect(
+			parseURI('https://bitbucket.example.com/projects/PROJ/repos/repo/browse/src/app.ts?at=refs%2Fheads%2Fmain', 'bitbucket'),
+		).toEqual({ provider: 'bitbucket', repository: 'PROJ/repo', path: 'src/app.ts' })
+		expect(parseURI('https://bitbucket.org/workspace/repo/src/main/src/app.ts', 'bitbucket')).toEqual({
+			provider: 'bitbucket',
+			repository: 'workspace/repo',
+			path: 'src/app.ts',
+		})
+	})
+
+	test('rejects links of the other provider', () => {
+		expect(() => parseURI('https://gitlab.example.com/group/proj/-/blob/main/x.ts', 'bitbucket')).toThrow(
+			'is not a bitbucket link',
+		)
+		expect(() => parseURI('https://example.com/about', 'gitlab')).toThrow('is not a link to a file')
+	})
+})
+
+describe('parseScope', () => {
+	test('reads a pull request link as its repository', () => {
+		expect(parseScope('https://bitbucket.example.com/projects/PROJ/repos/repo/pull-requests/12', 'bitbucket')).toEqual({
+			provider: 'bitbucket',
+			repository: 'PROJ/repo',
+			path: '',
+		})
+	})
+})
+
+describe('parseWebURL', () => {
+	test('takes the ref and change request from the link', () => {
+		expect(parseWebURL('https://gitlab.example.com/group/proj/-/blob/v1.2.0/x.ts')?.ref).toBe('v1.2.0')
+		expect(parseWebURL('https://gitlab.example.com/group/proj/-/merge_requests/42')).toEqual({
+			provider: 'gitlab',
+			repository: 'group/proj',
+			path: '',
+			changeRequest: 42,
+		})
+		expect(parseWebURL('https://bitbucket.example.com/projects/PROJ/repos/repo/pull-requests/7/overview')).toEqual({
+			provider: 'bitbucket',
+			repository: 'PROJ/repo',
+			path: '',
+			changeRequest: 7,
+		})
+		expect(parseWebURL('https://bitbucket.example.com/projects/PROJ/repos/repo/browse/a.ts?at=refs%2Ftags%2Fv2')?.ref).toBe('v2')
+	})
+
+	test('strips the path of an instance served below the root', () => {
+		expect(
+			parseWebURL('https://example.com/gitlab/group/proj/-/blob/main/x.ts', 'https://example.com/gitlab')?.repository,
+		).toBe('group/proj')
+		expect(
+			parseWebURL('https://example.com/bitbucket/users/jdoe/repos/dotfiles/browse/.vimrc', 'https://example.com/bitbucket'),
+		).toEqual({ provider: 'bitbucket', repository: '~jdoe/dotfiles', path: '.vimrc', ref: undefined })
+	})
+
+	test('ignores other links', () => {
+		expect(parseWebURL('https://gitlab.example.com/group/proj')).toBeUndefined()
+		expect(parseWebURL('not a url')).toBeUndefined()
+	})
+})
@@ -0,0 +1,269 @@
+import type { Provider } from './instances'
+
+/**
+ * A file or directory in a repository, written as a URI whose scheme names
+ * the provider: bitbucket://PROJ/repo/path or gitlab://group/project/path.
+ *
+ * Bitbucket repositories always take two segments (project or workspace, then
+ * repository). GitLab projects in nested groups mark the end of the project
+ * path with "-", as GitLab's own web URLs do: gitlab://group/sub/project/-/path.
+ */
+export type SourceURI = {
+	provider: Provider
+	/** "PROJ/repo" or "group/project" */
+	repository: string
+	/** Path within the repository, without a leading slash ("" for the root) */
+	path: string
+}
+
+/**
+ * Where to search: a whole instance, a Bitbucket project or workspace or a
+ * GitLab group, or a repository (optionally narrowed to a directory).
+ */
+export type SourceScope = {
+	provider: Provider
+	namespace?: string
+	repository?: string
+	path: string
+}
+
+/**
+ * A location read from a link copied out of a provider's web UI, with the ref
+ * or change request the link points at.
+ */
+export type WebLocation = SourceURI & {
+	ref?: string
+	changeRequest?: number
+}
+
+const URI_PATTERN = /^([a-z]+):\/\/(.*)$/
+
+const WEB_URL_PATTERN = /^https?:\/\//i
+
+// What follows GitLab's "-" separator in links to files, directories and
+// merge requests
+const GITLAB_ROUTES = ['blob', 'tree', 'raw', 'blame', 'merge_requests']
+
+const BITBUCKET_CLOUD_HOST = 'bitbucket.org'
+
+function isProvider(value: string): value is Provider {
+	return value === 'bitbucket' || value === 'gitlab'
+}
+
+/**
+ * The provider named by a URI's scheme, or undefined for anything else.
+ */
+export function schemeOf(value: string): Provider | undefined {
+	const scheme = value.match(URI_PATTERN)?.[1]
+	return scheme && isProvider(scheme) ? scheme : undefined
+}
+
+export function isWebURL(value: string): boolean {
+	return WEB_URL_PATTERN.test(value)
+}
+
+function decodeSegments(segments: string[]): string[] {
+	return segments.map((segment) => {
+		try {
+			return decodeURIComponent(segment)
+		} catch {
+			return segment
+		}
+	})
+}
+
+function shortRef(ref: string | null | undefined): string | undefined {
+	return ref ? ref.replace(/^refs\/(heads|tags)\//, '') : undefined
+}
+
+function changeRequestNumber(segment: string | undefined): number | undefined {
+	return segment && /^\d+$/.test(segment) ? Number(segment) : undefined
+}
+
+/**
+ * Read a link to a file, directory or change request from the web UI:
+ *
+ * - GitLab: /group/project/-/blob/<ref>/<path>, /-/tree/<ref>/<path> and
+ *   /-/merge_requests/<iid>
+ * - Bitbucket Server: /projects/PROJ/repos/repo/browse/<path>?at=<ref> and
+ *   /pull-requests/<id>, or /users/<name>/repos/... for personal repositories
+ * - Bitbucket Cloud: bitbucket.org/workspace/repo/src/<ref>/<path> and
+ *   /pull-requests/<id>
+ *
+ * `baseURL` is the instance's web URL, whose path is stripped first so
+ * instances served below a path work too. A ref with a slash in it cannot be
+ * told apart from the path in GitLab and Cloud links; the first segment is
+ * taken as the ref. Returns undefined for anything else.
+ */
+export function parseWebURL(value: string, baseURL?: string): WebLocation | undefined {
+	let url: URL
+	try {
+		url = new URL(value)
+	} catch {
+		return undefined
+	}
+
+	const basePath = baseURL ? new URL(baseURL).pathname.replace(/\/+$/, '') : ''
+	const pathname = basePath && url.pathname.startsWith(`${basePath}/`) ? url.pathname.slice(basePath.length) : url.pathname
+	const segments = decodeSegments(pathname.split('/').filter(Boolean))
+	const trailingSlash = pathname.endsWith('/')
+
+	const separator = segments.indexOf('-')
+	const route = segments[separator + 1]
+	if (separator >= 2 && route && GITLAB_ROUTES.includes(route)) {
+		const repository = segments.slice(0, separator).join('/')
+
+		if (route === 'merge_requests') {
+			return { provider: 'gitlab', repository, path: '', changeRequest: changeRequestNumber(segments[separator + 2]) }
+		}
+
+		return {
+			provider: 'gitlab',
+			repository,
+			path: joinPath(segments.slice(separator + 3), trailingSlash || route === 'tree'),
+			ref: segments[separator + 2],
+		}
+	}
+
+	if (url.hostname === BITBUCKET_CLOUD_HOST) {
+		const [workspace, slug, kind, ...rest] = segments
+		if (!workspace || !slug) {
+			return undefined
+		}
+
+		const repository = `${workspace}/${slug}`
+		if (kind === 'pull-requests') {
+			return { provider: 'bitbucket', repository, path: '', changeRequest: changeRequestNumber(rest[0]) }
+		}
+
+		return kind === 'src'
+			? { provider: 'bitbucket', repository, path: joinPath(rest.slice(1), trailingSlash), ref: rest[0] }
+			: { provider: 'bitbucket', repository, path: '' }
+	}
+
+	const repos = segments.indexOf('repos')
+	const owner = segments[repos - 2]
+	const slug = segments[repos + 1]
+	if (repos >= 2 && slug && (owner === 'projects' || owner === 'users')) {
+		const project = owner === 'users' ? `~${segments[repos - 1]}` : (segments[repos - 1] ?? '')
+		const repository = `${project}/${slug}`
+		const [kind, ...rest] = segments.slice(repos + 2)
+
+		if (kind === 'pull-requests') {
+			return { provider: 'bitbucket', repository, path: '', changeRequest: changeRequestNumber(rest[0]) }
+		}
+
+		return {
+			provider: 'bitbucket',
+			repository,
+			path: kind === 'browse' ? joinPath(rest, trailingSlash) : '',
+			ref: shortRef(url.searchParams.get('at')),
+		}
+	}
+
+	return undefined
+}
+
+/**
+ * Split a URI into its provider and path segments. Values without a scheme
+ * are read as paths on `provider`, so "PROJ/repo/src" works like
+ * "bitbucket://PROJ/repo/src" on a Bitbucket instance.
+ */
+function segmentsOf(value: string, provider: Provider): { segments: string[]; trailingSlash: boolean } {
+	const match = value.match(URI_PATTERN)
+	const scheme = match?.[1]
+
+	if (scheme !== undefined && scheme !== provider) {
+		throw new Error(`"${value}" is not a ${provider}:// URI`)
+	}
+
+	const rest = match?.[2] ?? value
+	return {
+		segments: rest.split('/').filter(Boolean),
+		trailingSlash: rest.endsWith('/'),
+	}
+}
+
+/**
+ * Find where the repository ends: after two segments, or at GitLab's "-"
+ * separator.
+ */
+function repositoryLength(segments: string[], provider: Provider): number {
+	const separator = provider === 'gitlab' ? segments.indexOf('-') : -1
+	return separator === -1 ? Math.min(segments.length, 2) : separator
+}
+
+function joinPath(segments: string[], trailingSlash: boolean): string {
+	const path = segments.join('/')
+	return path && trailingSlash ? `${path}/` : path
+}
+
+export function parseURI(value: string, provider: Provider): SourceURI {
+	if (isWebURL(value)) {
+		const { repository, path } = webLocation(value, provider)
+		return { provider, repository, path }
+	}
+
+	const { segments, trailingSlash } = segmentsOf(value, provider)
+	const length = repositoryLength(segments, provider)
+
+	if (length < 2) {
+		throw new Error(
+			provider === 'bitbucket'
+				? `"${value}" does not name a repository; expected bitbucket://PROJECT/repository/path`
+				: `"${value}" does not name a project; expected gitlab://group/project/path`,
+		)
+	}
+
+	const pathStart = segments[length] === '-' ? length + 1 : length
+	return {
+		provider,
+		repository: segments.slice(0, length).join('/'),
+		path: joinPath(segments.slice(pathStart), trailingSlash),
+	}
+}
+
+export function parseScope(value: string, provider: Provider): SourceScope {
+	if (isWebURL(value)) {
+		const { repository, path } = webLocation(value, provider)
+		return { provider, repository, path }
+	}
+
+	const { segments, trailingSlash } = segmentsOf(value, provider)
+	const length = repositoryLength(segments, provider)
+
+	if (length < 2) {
+		return { provider, namespace: segments[0], path: '' }
+	}
+
+	const pathStart = segments[length] === '-' ? length + 1 : length
+	return {
+		provider,
+		repository: segments.slice(0, length).join('/'),
+		path: joinPath(segments.slice(pathStart), trailingSlash),
+	}
+}
+
+function webLocation(value: string, provider: Provider): WebLocation {
+	const location = parseWebURL(value)
+
+	if (!location) {
+		throw new Error(`"${value}" is not a link to a file, directory or change request in a repository`)
+	}
+
+	if (location.provider !== provider) {
+		throw new Error(`"${value}" is not a ${provider} link`)
+	}
+
+	return location
+}
+
+export function formatURI(provider: Provider, repository: string, path = ''): string {
+	const relativePath = path.replace(/^\/+/, '')
+	// Nested GitLab groups need the separator to be read back unambiguously
+	const separator = provider === 'gitlab' && repository.split('/').length > 2 ? '/-' : ''
+
+	return relativePath
+		? `${provider}://${repository}${separator}/${relativePath}`
+		: `${provider}://${repository}${separator}`
+}
@@ -0,0 +1,114 @@
+import { afterEach, describe, expect, test } from 'bun:test'
+import { mkdtempSync, readdirSync, rmSync, statSync, utimesSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+import {
+	createResponseCache,
+	type EndpointTTL,
+	getCachedResponse,
+	isFresh,
+	renewCachedResponse,
+	storeResponse,
+} from './cache'
+
+const TTLS: EndpointTTL[] = [{ kind: 'refs', pattern: /\/branches/, ttlMs: 30_000 }]
+const SHA = '0123456789abcdef0123456789abcdef01234567'
+
+const directories: string[] = []
+
+function cacheDirectory(): string {
+	const directory = mkdtempSync(join(tmpdir(), 'response-cache-'))
+	directories.push(directory)
+	return join(directory, 'responses')
+}
+
+function response(text: string, etag?: string) {
+	return {
+		status: 200,
+		statusText: 'OK',
+		text,
+		headers: etag ? ([['ETag', etag]] as Array<[string, string]>) : [],
+	}
+}
+
+afterEach(() => {
+	for (const directory of directories.splice(0)) {
+		rmSync(directory, { recursive: true, force: true })
+	}
+})
+
+describe('response cache', () => {
+	test('evicts the least recently used entry from memory', async () => {
+		const cache = createResponseCache(TTLS, 2)
+		await storeResponse(cache, 'a', 'https://example.com/branches?a', response('a'))
+		await storeResponse(cache, 'b', 'https://example.com/branches?b', response('b'))
+		await getCachedResponse(cache, 'a')
+		await storeResponse(cache, 'c', 'https://example.com/branches?c', response('c'))
+
+		expect([...cache.entries.keys()]).toEqual(['a', 'c'])
+		expect(await getCachedResponse(cache, 'b')).toBeUndefined()
+	})
+
+	test('caps the disk store, dropping the least recently used files', async () => {
+		const directory = cacheDirectory()
+		const cache = createResponseCache(TTLS, 10, directory)
+
+		for (let index = 0; index < 10; index++) {
+			await storeResponse(cache, `key-${index}`, `https://example.com/branches?${index}`, response(String(index)))
+			// Age the files so their order of use is unambiguous
+			const usedAt = new Date(Date.now() - (100 - index) * 1000)
+			utimesSync(join(directory, `key-${index}.json`), usedAt, usedAt)
+		}
+
+		await storeResponse(cache, 'key-10', 'https://example.com/branches?10', response('10'))
+
+		const files = readdirSync(directory).sort()
+		expect(files).toHaveLength(9)
+		expect(files).not.toContain('key-0.json')
+		expect(files).not.toContain('key-1.json')
+		expect(files).toContain('key-10.json')
+	})
+
+	test('reads entries back from disk after a restart', async () => {
+		const directory = cacheDirectory()
+		await storeResponse(createResponseCache(TTLS, 10, directory), 'a', 'https://example.com/branches', response('a'))
+
+		const restarted = createResponseCache(TTLS, 10, directory)
+		expect((await getCachedResponse(restarted, 'a'))?.text).toBe('a')
+	})
+
+	test('keeps the disk store private to the current user', async () => {
+		const directory = cacheDirectory()
+		await storeResponse(createResponseCache(TTLS, 10, directory), 'a', 'https://example.com/branches', response('a'))
+
+		expect(statSync(directory).mode & 0o777).toBe(0o700)
+		expect(statSync(join(directory, 'a.json')).mode & 0o777).toBe(0o600)
+	})
+
+	test('keeps the ETag of a stale entry for revalidation and renews it on 304', async () => {
+		const cache = createResponseCache(TTLS)
+		const url = 'https://example.com/branches'
+		const entry = await storeResponse(cache, 'a', url, response('a', '"v1"'))
+		expect(entry.etag).toBe('"v1"')
+		expect(isFresh(entry)).toBe(true)
+
+		const stale = { ...entry, expiresAt: Date.now() - 1 }
+		cache.entries.set('a', stale)
+		expect(isFresh(stale)).toBe(false)
+		expect((await getCachedResponse(cache, 'a'))?.etag).toBe('"v1"')
+
+		const renewed = await renewCachedResponse(cache, 'a', url, stale)
+		expect(isFresh(renewed)).toBe(true)
+		expect(renewed.text).toBe('a')
+	})
+
+	test('never expires responses read at a commit SHA', async () => {
+		const cache = createResponseCache(TTLS)
+		const entry = await storeResponse(cache, 'a', `https://example.com/raw/file.ts?at=${SHA}`, response('a'))
+		const branch = await storeResponse(cache, 'b', 'https://example.com/raw/file.ts?at=main', response('b'))
+
+		expect(entry.immutable).toBe(true)
+		expect(branch.immutable).toBe(false)
+	})
+})
@@ -0,0 +1,233 @@
+import { createHash } from 'node:crypto'
+import { mkdir, readdir, readFile, rm, stat, utimes, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+
+/**
+ * How long responses from one kind of endpoint are served without asking the
+ * server again. The first pattern that matches the URL wins.
+ */
+export interface EndpointTTL {
+	kind: string
+	pattern: RegExp
+	ttlMs: number
+}
+
+/**
+ * A successful GET response as stored in the cache.
+ */
+export interface CachedResponse {
+	status: number
+	statusText: string
+	text: string
+	headers: Array<[string, string]>
+	etag?: string
+	/** Responses pinned to commit SHAs never change and are never revalidated */
+	immutable: boolean
+	expiresAt: number
+}
+
+/**
+ * An in-memory LRU of GET responses, backed by an optional directory so
+ * entries survive restarts. Both hold at most maxEntries responses.
+ */
+export interface ResponseCache {
+	entries: Map<string, CachedResponse>
+	maxEntries: number
+	directory?: string
+	ttls: EndpointTTL[]
+	defaultTTLMs: number
+}
+
+const DEFAULT_MAX_ENTRIES = 500
+const DEFAULT_TTL_MS = 60_000
+
+// Query parameters that name a branch, tag or commit
+const REF_PARAMS = ['at', 'until', 'since', 'from', 'to', 'ref', 'ref_name', 'sha']
+
+const COMMIT_SHA = /^[0-9a-f]{40}$/i
+
+export function createResponseCache(
+	ttls: EndpointTTL[],
+	maxEntries = DEFAULT_MAX_ENTRIES,
+	directory?: string,
+): ResponseCache {
+	return {
+		entries: new Map(),
+		maxEntries,
+		directory,
+		ttls,
+		defaultTTLMs: DEFAULT_TTL_MS,
+	}
+}
+
+/**
+ * Build the cache from <prefix>_CACHE ("off" disables it),
+ * <prefix>_CACHE_SIZE (entries kept in memory and on disk, default 500) and
+ * <prefix>_CACHE_DIR (where to persist entries; memory only when unset).
+ */
+export function loadResponseCacheFromEnv(
+	prefix: string,
+	ttls: EndpointTTL[],
+): ResponseCache | undefined {
+	if (process.env[`${prefix}_CACHE`]?.toLowerCase() === 'off') {
+		return undefined
+	}
+
+	const size = process.env[`${prefix}_CACHE_SIZE`]
+	const maxEntries = size ? Number(size) : DEFAULT_MAX_ENTRIES
+
+	if (!Number.isInteger(maxEntries) || maxEntries < 1) {
+		console.error(`Error: ${prefix}_CACHE_SIZE must be a positive whole number, got "${size}"`)
+		process.exit(1)
+	}
+
+	return createResponseCache(ttls, maxEntries, process.env[`${prefix}_CACHE_DIR`] || undefined)
+}
+
+/**
+ * Whether a URL reads a fixed commit: a full SHA appears in the path or as
+ * every ref parameter. Pull request lookups are excluded because new pull
+ * requests can still be opened against an old commit.
+ */
+function isImmutable(url: URL): boolean {
+	if (/pull-?requests|merge_requests/.test(url.pathname)) {
+		return false
+	}
+
+	const refs = REF_PARAMS.flatMap((name) => url.searchParams.getAll(name))
+	const pathHasCommit = url.pathname.split('/').some((segment) => COMMIT_SHA.test(segment))
+
+	return (pathHasCommit || refs.length > 0) && refs.every((ref) => COMMIT_SHA.test(ref))
+}
+
+function ttlFor(cache: ResponseCache, url: string): number {
+	return cache.ttls.find((entry) => entry.pattern.test(url))?.ttlMs ?? cache.defaultTTLMs
+}
+
+/**
+ * The cache key covers the request headers as well as the URL, so callers
+ * with different credentials never see each other's responses.
+ */
+export function cacheKey(url: string, headers: Record<string, string>): string {
+	return createHash('sha256')
+		.update(JSON.stringify([url, Object.entries(headers).sort()]))
+		.digest('hex')
+}
+
+export function isFresh(entry: CachedResponse): boolean {
+	return entry.immutable || entry.expiresAt > Date.now()
+}
+
+function remember(cache: ResponseCache, key: string, entry: CachedResponse): void {
+	// Re-inserting moves the key to the most recently used end of the map
+	cache.entries.delete(key)
+	cache.entries.set(key, entry)
+
+	while (cache.entries.size > cache.maxEntries) {
+		const oldest = cache.entries.keys().next().value
+		if (oldest === undefined) {
+			break
+		}
+		cache.entries.delete(oldest)
+	}
+}
+
+/**
+ * Delete the least recently used files once the directory holds more than
+ * maxEntries responses. Reads touch a file's mtime, so it orders by last use.
+ */
+async function evictFromDisk(cache: ResponseCache, directory: string): Promise<void> {
+	const names = (await readdir(directory)).filter((name) => name.endsWith('.json'))
+	if (names.length <= cache.maxEntries) {
+		return
+	}
+
+	const files = await Promise.all(
+		names.map(async (name) => {
+			const path = join(directory, name)
+			// Another call may have evicted the file in the meantime
+			const usedAt = await stat(path).then((info) => info.mtimeMs, () => 0)
+			return { path, usedAt }
+		}),
+	)
+	files.sort((a, b) => a.usedAt - b.usedAt)
+
+	// Go a tenth below the limit so the next writes do not all rescan
+	const excess = names.length - Math.floor(cache.maxEntries * 0.9)
+	await Promise.all(files.slice(0, excess).map((file) => rm(file.path, { force: true })))
+}
+
+async function persist(cache: ResponseCache, key: string, entry: CachedResponse): Promise<void> {
+	if (!cache.directory) {
+		return
+	}
+
+	// The disk store is best effort; a failed write only costs a refetch later.
+	// Responses hold private source, so only the current user may read them
+	try {
+		await mkdir(cache.directory, { recursive: true, mode: 0o700 })
+		await writeFile(join(cache.directory, `${key}.json`), JSON.stringify(entry), { mode: 0o600 })
+		await evictFromDisk(cache, cache.directory)
+	} catch {}
+}
+
+export async function getCachedResponse(
+	cache: ResponseCache,
+	key: string,
+): Promise<CachedResponse | undefined> {
+	const entry = cache.entries.get(key)
+	if (entry) {
+		remember(cache, key, entry)
+		return entry
+	}
+
+	if (!cache.directory) {
+		return undefined
+	}
+
+	try {
+		const path = join(cache.directory, `${key}.json`)
+		const stored = JSON.parse(await readFile(path, 'utf8')) as CachedResponse
+		remember(cache, key, stored)
+
+		const now = new Date()
+		await utimes(path, now, now).catch(() => {})
+		return stored
+	} catch {
+		return undefined
+	}
+}
+
+export async function storeResponse(
+	cache: ResponseCache,
+	key: string,
+	url: string,
+	response: Pick<CachedResponse, 'status' | 'statusText' | 'text' | 'headers'>,
+): Promise<CachedResponse> {
+	const etag = response.headers.find(([name]) => name.toLowerCase() === 'etag')?.[1]
+	const entry: CachedResponse = {
+		...response,
+		etag,
+		immutable: isImmutable(new URL(url)),
+		expiresAt: Date.now() + ttlFor(cache, url),
+	}
+
+	remember(cache, key, entry)
+	await persist(cache, key, entry)
+	return entry
+}
+
+/**
+ * Extend an entry after the server answered 304 Not Modified.
+ */
+export async function renewCachedResponse(
+	cache: ResponseCache,
+	key: string,
+	url: string,
+	entry: CachedResponse,
+): Promise<CachedResponse> {
+	const renewed = { ...entry, expiresAt: Date.now() + ttlFor(cache, url) }
+	remember(cache, key, renewed)
+	await persist(cache, key, renewed)
+	return renewed
+}
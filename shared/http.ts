@@ -0,0 +1,388 @@
+import { createHash, randomUUID, timingSafeEqual } from 'node:crypto'
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http'
+
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js'
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js'
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js'
+
+/**
+ * How HTTP clients prove they may use the server: a bearer token in the
+ * Authorization header, a token in a custom header (for clients that keep
+ * Authorization for a gateway), or nothing on a trusted network.
+ */
+export type ClientAuth =
+	| { type: 'bearer'; tokens: string[] }
+	| { type: 'header'; header: string; tokens: string[] }
+	| { type: 'none' }
+
+/**
+ * Whose source control credentials a session runs with: each client's own
+ * ("client"), or the server's for clients that send none ("server").
+ */
+export type CredentialMode = 'client' | 'server'
+
+export interface HTTPOptions {
+	host: string
+	port: number
+	auth: ClientAuth
+	credentials: CredentialMode
+}
+
+/**
+ * A connected MCP session, over either Streamable HTTP or the older SSE
+ * transport. Only requests presenting the credentials that opened it may
+ * use it.
+ */
+interface Session {
+	server: Server
+	transport: StreamableHTTPServerTransport | SSEServerTransport
+	credentials: Buffer
+}
+
+const DEFAULT_HOST = '127.0.0.1'
+const DEFAULT_PORT = 3000
+const DEFAULT_AUTH_HEADER = 'x-mcp-token'
+
+// How long pending requests get to finish during shutdown
+const SHUTDOWN_TIMEOUT_MS = 10_000
+
+/**
+ * Read the HTTP settings. Returns undefined unless <prefix>_MCP_TRANSPORT is
+ * "http", in which case the server listens on <prefix>_MCP_HOST (default
+ * 127.0.0.1) and <prefix>_MCP_PORT (default 3000). <prefix>_MCP_AUTH selects
+ * "bearer" (the default), "header" (token in <prefix>_MCP_AUTH_HEADER,
+ * default X-MCP-Token) or "none"; the accepted tokens are the comma-separated
+ * <prefix>_MCP_TOKENS. <prefix>_MCP_CREDENTIALS is "client" (the default:
+ * every client sends its own credentials) or "server" (clients that send
+ * none use the server's).
+ */
+export function loadHTTPOptionsFromEnv(prefix: string): HTTPOptions | undefined {
+	const transport = process.env[`${prefix}_MCP_TRANSPORT`]?.toLowerCase() || 'stdio'
+
+	if (transport === 'stdio') {
+		return undefined
+	}
+
+	if (transport !== 'http') {
+		console.error(
+			`Error: ${prefix}_MCP_TRANSPORT must be "stdio" or "http", got "${process.env[`${prefix}_MCP_TRANSPORT`]}"`,
+		)
+		process.exit(1)
+	}
+
+	const portSetting = process.env[`${prefix}_MCP_PORT`]
+	const port = portSetting ? Number(portSetting) : DEFAULT_PORT
+	if (!Number.isInteger(port) || port < 0 || port > 65535) {
+		console.error(`Error: ${prefix}_MCP_PORT must be a port number, got "${portSetting}"`)
+		process.exit(1)
+	}
+
+	const authType = process.env[`${prefix}_MCP_AUTH`]?.toLowerCase() || 'bearer'
+	const tokens = (process.env[`${prefix}_MCP_TOKENS`] || '')
+		.split(',')
+		.map((token) => token.trim())
+		.filter(Boolean)
+
+	let auth: ClientAuth
+	if (authType === 'none') {
+		auth = { type: 'none' }
+	} else if (authType === 'bearer' || authType === 'header') {
+		if (tokens.length === 0) {
+			console.error(`Error: ${prefix}_MCP_TOKENS must list the client tokens for ${authType} authentication`)
+			process.exit(1)
+		}
+
+		auth =
+			authType === 'bearer'
+				? { type: 'bearer', tokens }
+				: {
+						type: 'header',
+						header: (process.env[`${prefix}_MCP_AUTH_HEADER`] || DEFAULT_AUTH_HEADER).toLowerCase(),
+						tokens,
+					}
+	} else {
+		console.error(
+			`Error: ${prefix}_MCP_AUTH must be "bearer", "header" or "none", got "${process.env[`${prefix}_MCP_AUTH`]}"`,
+		)
+		process.exit(1)
+	}
+
+	const credentials = process.env[`${prefix}_MCP_CREDENTIALS`]?.toLowerCase() || 'client'
+	if (credentials !== 'client' && credentials !== 'server') {
+		console.error(
+			`Error: ${prefix}_MCP_CREDENTIALS must be "client" or "server", got "${process.env[`${prefix}_MCP_CREDENTIALS`]}"`,
+		)
+		process.exit(1)
+	}
+
+	return {
+		host: process.env[`${prefix}_MCP_HOST`] || DEFAULT_HOST,
+		port,
+		auth,
+		credentials,
+	}
+}
+
+function digest(value: string): Buffer {
+	return createHash('sha256').update(value).digest()
+}
+
+function headerValue(request: IncomingMessage, name: string): string | undefined {
+	const value = request.headers[name]
+	return typeof value === 'string' && value ? value.trim() : undefined
+}
+
+function presentedToken(request: IncomingMessage, auth: ClientAuth): string | undefined {
+	if (auth.type === 'none') {
+		return undefined
+	}
+
+	return auth.type === 'bearer'
+		? request.headers.authorization?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim()
+		: headerValue(request, auth.header)
+}
+
+function isAuthorized(request: IncomingMessage, auth: ClientAuth): boolean {
+	if (auth.type === 'none') {
+		return true
+	}
+
+	const value = presentedToken(request, auth)
+	if (value === undefined) {
+		return false
+	}
+
+	// Compare digests so the check takes the same time whatever the token
+	const presented = digest(value)
+	return auth.tokens.some((token) => timingSafeEqual(presented, digest(token)))
+}
+
+/**
+ * Digest of everything a request authenticates with: its MCP token and the
+ * source control credentials it sends in `credentialHeader`.
+ */
+function credentialsOf(request: IncomingMessage, auth: ClientAuth, credentialHeader?: string): Buffer {
+	return digest(
+		JSON.stringify([
+			presentedToken(request, auth) ?? '',
+			credentialHeader ? (headerValue(request, credentialHeader) ?? '') : '',
+		]),
+	)
+}
+
+function sendJSON(response: ServerResponse, status: number, body: unknown): void {
+	response.writeHead(status, { 'Content-Type': 'application/json' })
+	response.end(JSON.stringify(body))
+}
+
+/**
+ * Serve MCP over Streamable HTTP at /mcp, with the SSE transport at /sse and
+ * /messages for older clients. Every session gets its own server from
+ * `createSessionServer`, which sees the request that opened the session so
+ * it can pick up the client's credentials from `credentialHeader`; without
+ * that header, sessions run with the server's credentials. /healthz and
+ * /readyz report liveness and readiness, and SIGINT/SIGTERM let pending
+ * requests finish before exiting.
+ */
+export async function serveHTTP(
+	options: HTTPOptions,
+	createSessionServer: (request: IncomingMessage) => Server,
+	credentialHeader?: string,
+): Promise<void> {
+	const sessions = new Map<string, Session>()
+	const pending = new Set<Promise<void>>()
+	let shuttingDown = false
+
+	// Look up a session, hiding the ones opened with other credentials
+	function sessionFor(request: IncomingMessage, sessionId: string | undefined): Session | undefined {
+		const session = sessionId === undefined ? undefined : sessions.get(sessionId)
+		const credentials = credentialsOf(request, options.auth, credentialHeader)
+		if (!session || !timingSafeEqual(session.credentials, credentials)) {
+			return undefined
+		}
+
+		return session
+	}
+
+	// Refuse to open a session with the server's credentials unless allowed
+	function acceptsCredentials(request: IncomingMessage, response: ServerResponse): boolean {
+		if (!credentialHeader || options.credentials === 'server' || headerValue(request, credentialHeader)) {
+			return true
+		}
+
+		sendJSON(response, 401, { error: `Send your credentials in the ${credentialHeader} header` })
+		return false
+	}
+
+	async function handle(request: IncomingMessage, response: ServerResponse): Promise<void> {
+		const url = new URL(request.url ?? '/', 'http://localhost')
+
+		if (url.pathname === '/healthz') {
+			sendJSON(response, 200, { status: 'ok' })
+			return
+		}
+
+		if (url.pathname === '/readyz') {
+			sendJSON(response, shuttingDown ? 503 : 200, {
+				status: shuttingDown ? 'shutting down' : 'ready',
+				sessions: sessions.size,
+			})
+			return
+		}
+
+		if (shuttingDown) {
+			sendJSON(response, 503, { error: 'Server is shutting down' })
+			return
+		}
+
+		if (!isAuthorized(request, options.auth)) {
+			if (options.auth.type === 'bearer') {
+				response.setHeader('WWW-Authenticate', 'Bearer')
+			}
+			sendJSON(response, 401, { error: 'Unauthorized' })
+			return
+		}
+
+		if (url.pathname === '/mcp') {
+			const sessionId = request.headers['mcp-session-id']
+			const existing = sessionFor(request, typeof sessionId === 'string' ? sessionId : undefined)
+
+			if (existing) {
+				if (!(existing.transport instanceof StreamableHTTPServerTransport)) {
+					sendJSON(response, 400, { error: 'Session uses the SSE transport' })
+					return
+				}
+
+				await existing.transport.handleRequest(request, response)
+				return
+			}
+
+			if (sessionId !== undefined) {
+				sendJSON(response, 404, { error: 'Unknown session' })
+				return
+			}
+
+			if (!acceptsCredentials(request, response)) {
+				return
+			}
+
+			// A request without a session must be an initialize request; the
+			// transport rejects anything else
+			const server = createSessionServer(request)
+			const credentials = credentialsOf(request, options.auth, credentialHeader)
+			const transport = new StreamableHTTPServerTransport({
+				sessionIdGenerator: () => randomUUID(),
+				onsessioninitialized: (id) => {
+					sessions.set(id, { server, transport, credentials })
+				},
+			})
+
+			server.onclose = () => {
+				if (transport.sessionId) {
+					sessions.delete(transport.sessionId)
+				}
+			}
+
+			await server.connect(transport)
+			await transport.handleRequest(request, response)
+
+			// Nothing was initialized, so the session has no further use
+			if (!transport.sessionId) {
+				await server.close()
+			}
+			return
+		}
+
+		if (url.pathname === '/sse' && request.method === 'GET') {
+			if (!acceptsCredentials(request, response)) {
+				return
+			}
+
+			const server = createSessionServer(request)
+			const transport = new SSEServerTransport('/messages', response)
+
+			sessions.set(transport.sessionId, {
+				server,
+				transport,
+				credentials: credentialsOf(request, options.auth, credentialHeader),
+			})
+			server.onclose = () => {
+				sessions.delete(transport.sessionId)
+			}
+
+			await server.connect(transport)
+			return
+		}
+
+		if (url.pathname === '/messages' && request.method === 'POST') {
+			const session = sessionFor(request, url.searchParams.get('sessionId') ?? undefined)
+
+			if (!session || !(session.transport instanceof SSEServerTransport)) {
+				sendJSON(response, 404, { error: 'Unknown session' })
+				return
+			}
+
+			await session.transport.handlePostMessage(request, response)
+			return
+		}
+
+		sendJSON(response, 404, { error: 'Not found' })
+	}
+
+	const httpServer = createServer((request, response) => {
+		// Event streams stay open for the life of their session, so only the
+		// requests that carry messages count as pending
+		if (request.method !== 'GET') {
+			const done = new Promise<void>((resolve) => response.once('close', () => resolve()))
+			pending.add(done)
+			void done.then(() => pending.delete(done))
+		}
+
+		handle(request, response).catch((error) => {
+			console.error('Error handling HTTP request:', error)
+			if (!response.headersSent) {
+				sendJSON(response, 500, { error: 'Internal server error' })
+			} else {
+				response.end()
+			}
+		})
+	})
+
+	async function shutdown(signal: string): Promise<void> {
+		if (shuttingDown) {
+			return
+		}
+
+		// New requests and connections are refused from here on
+		shuttingDown = true
+		const closed = new Promise<void>((resolve) => httpServer.close(() => resolve()))
+		console.error(`Received ${signal}, waiting for ${pending.size} pending requests...`)
+
+		const timedOut = await Promise.race([
+			Promise.allSettled([...pending]).then(() => false),
+			new Promise<boolean>((resolve) => setTimeout(() => resolve(true), SHUTDOWN_TIMEOUT_MS).unref()),
+		])
+
+		if (timedOut) {
+			console.error(`${pending.size} requests did not finish in time`)
+		}
+
+		// Close the sessions so open streams end, then drop what is left
+		console.error(`Closing ${sessions.size} sessions...`)
+		await Promise.allSettled([...sessions.values()].map((session) => session.server.close()))
+		httpServer.closeAllConnections()
+		await closed
+
+		process.exit(0)
+	}
+
+	process.once('SIGINT', () => void shutdown('SIGINT'))
+	process.once('SIGTERM', () => void shutdown('SIGTERM'))
+
+	await new Promise<void>((resolve, reject) => {
+		httpServer.once('error', reject)
+		httpServer.listen(options.port, options.host, () => resolve())
+	})
+
+	console.error(`MCP server listening on http://${options.host}:${options.port}/mcp`)
+}
@@ -0,0 +1,161 @@
+import { readFileSync } from 'node:fs'
+import { rootCertificates } from 'node:tls'
+
+/**
+ * Proxy and TLS settings shared by every request a client makes.
+ */
+export interface NetworkConfig {
+	/** Proxy for https:// URLs, e.g. "http://proxy.internal:3128" */
+	proxy?: string
+	/** Proxy for plain http:// URLs */
+	httpProxy?: string
+	/** Hosts that bypass the proxy, in NO_PROXY syntax */
+	noProxy?: string[]
+	/** PEM certificates to trust in addition to the system roots */
+	ca?: string
+	/** PEM client certificate and key presented for mutual TLS */
+	cert?: string
+	key?: string
+}
+
+// Errors raised when the server's certificate chain does not verify
+const TLS_ERROR_CODES = new Set([
+	'CERT_HAS_EXPIRED',
+	'CERT_NOT_YET_VALID',
+	'CERT_UNTRUSTED',
+	'DEPTH_ZERO_SELF_SIGNED_CERT',
+	'ERR_TLS_CERT_ALTNAME_INVALID',
+	'SELF_SIGNED_CERT_IN_CHAIN',
+	'UNABLE_TO_GET_ISSUER_CERT',
+	'UNABLE_TO_GET_ISSUER_CERT_LOCALLY',
+	'UNABLE_TO_VERIFY_LEAF_SIGNATURE',
+])
+
+const TLS_CHECK_TIMEOUT_MS = 10_000
+
+function readPEM(variable: string): string | undefined {
+	const path = process.env[variable]
+	if (!path) {
+		return undefined
+	}
+
+	try {
+		return readFileSync(path, 'utf8')
+	} catch (error) {
+		console.error(
+			`Error: could not read ${variable} (${path}): ${error instanceof Error ? error.message : String(error)}`,
+		)
+		process.exit(1)
+	}
+}
+
+/**
+ * Build the network settings from environment variables. The proxy comes from
+ * HTTPS_PROXY for https:// instances and HTTP_PROXY for http:// ones, either
+ * falling back to ALL_PROXY, and NO_PROXY lists the exceptions; the CA bundle and client
+ * certificate are file paths in <prefix>_CA_BUNDLE, <prefix>_CLIENT_CERT and
+ * <prefix>_CLIENT_KEY. Prints an error and exits when a file cannot be read
+ * or only half of the client certificate is configured.
+ */
+export function loadNetworkConfigFromEnv(prefix: string): NetworkConfig {
+	const allProxy = process.env.ALL_PROXY || process.env.all_proxy || undefined
+	const proxy = process.env.HTTPS_PROXY || process.env.https_proxy || allProxy
+	const httpProxy = process.env.HTTP_PROXY || process.env.http_proxy || allProxy
+	const noProxy = (process.env.NO_PROXY || process.env.no_proxy || '')
+		.split(',')
+		.map((entry) => entry.trim().toLowerCase())
+		.filter(Boolean)
+
+	const ca = readPEM(`${prefix}_CA_BUNDLE`)
+	const cert = readPEM(`${prefix}_CLIENT_CERT`)
+	const key = readPEM(`${prefix}_CLIENT_KEY`)
+
+	if (Boolean(cert) !== Boolean(key)) {
+		console.error(`Error: ${prefix}_CLIENT_CERT and ${prefix}_CLIENT_KEY must be set together`)
+		process.exit(1)
+	}
+
+	return { proxy, httpProxy, noProxy, ca, cert, key }
+}
+
+function bypassesProxy(url: URL, noProxy: string[]): boolean {
+	const host = url.hostname.toLowerCase()
+	const hostWithPort = `${host}:${url.port || (url.protocol === 'https:' ? '443' : '80')}`
+
+	return noProxy.some((entry) => {
+		if (entry === '*') {
+			return true
+		}
+
+		if (entry.includes(':') && !entry.startsWith('[')) {
+			return hostWithPort === entry || hostWithPort.endsWith(`.${entry.replace(/^\./, '')}`)
+		}
+
+		const domain = entry.replace(/^\*?\./, '')
+		return host === domain || host.endsWith(`.${domain}`)
+	})
+}
+
+/**
+ * The Bun fetch options that apply the network settings to a request. Without
+ * settings, fetch keeps its defaults.
+ */
+export function networkOptions(
+	url: string,
+	network: NetworkConfig | undefined,
+): Pick<BunFetchRequestInit, 'proxy' | 'tls'> {
+	if (!network) {
+		return {}
+	}
+
+	const target = new URL(url)
+	const proxy = target.protocol === 'http:' ? network.httpProxy : network.proxy
+
+	const options: Pick<BunFetchRequestInit, 'proxy' | 'tls'> = {
+		// The settings are authoritative, so never fall back to fetch's own proxy lookup
+		proxy: proxy && !bypassesProxy(target, network.noProxy ?? []) ? proxy : false,
+	}
+
+	if (network.ca || network.cert) {
+		options.tls = {
+			// A custom CA replaces the default trust store, so keep the system roots
+			ca: network.ca ? [...rootCertificates, network.ca] : undefined,
+			cert: network.cert,
+			key: network.key,
+		}
+	}
+
+	return options
+}
+
+/**
+ * Make one request to the instance and exit with a clear message when its
+ * TLS chain is not trusted. Other connection problems are only reported, so
+ * a server that is briefly unreachable does not stop the tools from starting.
+ */
+export async function verifyTLS(baseURL: string, network: NetworkConfig | undefined): Promise<void> {
+	if (!baseURL.startsWith('https:')) {
+		return
+	}
+
+	try {
+		const response = await fetch(baseURL, {
+			method: 'HEAD',
+			signal: AbortSignal.timeout(TLS_CHECK_TIMEOUT_MS),
+			...networkOptions(baseURL, network),
+		})
+		await response.body?.cancel()
+	} catch (error) {
+		const code = (error as { code?: unknown } | undefined)?.code
+		const message = error instanceof Error ? error.message : String(error)
+
+		if (typeof code === 'string' && TLS_ERROR_CODES.has(code)) {
+			console.error(
+				`Error: the TLS certificate of ${baseURL} is not trusted (${code}: ${message}). Point the CA bundle setting at the certificate of the issuing CA.`,
+			)
+			process.exit(1)
+		}
+
+		console.error(`Warning: could not reach ${baseURL} to check its TLS certificate: ${message}`)
+	}
+}
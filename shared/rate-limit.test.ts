@@ -0,0 +1,124 @@
+import { afterEach, describe, expect, test } from 'bun:test'
+
+import { createRateLimiter, createThrottleStats, fetchWithRetry, type RateLimiter } from './rate-limit'
+
+const API_URL = 'https://example.com/api'
+const realFetch = globalThis.fetch
+
+function limiter(requestsPerSecond: number, maxRetries = 3): RateLimiter {
+	return createRateLimiter(requestsPerSecond, { maxRetries, baseDelayMs: 1, maxDelayMs: 2_000 })
+}
+
+// Answer requests with the given responses in turn, repeating the last one
+function serve(...responses: Array<() => Response>): { calls: number } {
+	const served = { calls: 0 }
+	globalThis.fetch = (async () => {
+		const next = responses[Math.min(served.calls, responses.length - 1)] as () => Response
+		served.calls++
+		return next()
+	}) as unknown as typeof fetch
+	return served
+}
+
+const ok = () => new Response('ok')
+const status = (code: number, headers?: Record<string, string>) => () => new Response(null, { status: code, headers })
+
+afterEach(() => {
+	globalThis.fetch = realFetch
+})
+
+describe('token bucket', () => {
+	test('lets a burst through, then holds requests back until tokens refill', async () => {
+		serve(ok)
+		const rateLimiter = limiter(10)
+		const stats = createThrottleStats()
+
+		for (let index = 0; index < 10; index++) {
+			await fetchWithRetry(API_URL, {}, rateLimiter, stats, true)
+		}
+		expect(stats.waitedMs).toBe(0)
+
+		const startedAt = Date.now()
+		await fetchWithRetry(API_URL, {}, rateLimiter, stats, true)
+		expect(stats.waitedMs).toBeGreaterThan(50)
+		expect(Date.now() - startedAt).toBeGreaterThanOrEqual(50)
+	})
+
+	test('refills at the configured rate up to the burst size', async () => {
+		serve(ok)
+		const rateLimiter = limiter(10)
+		rateLimiter.tokens = 0
+		rateLimiter.updatedAt = Date.now() - 60_000
+
+		const stats = createThrottleStats()
+		await fetchWithRetry(API_URL, {}, rateLimiter, stats, true)
+
+		expect(stats.waitedMs).toBe(0)
+		expect(rateLimiter.tokens).toBeCloseTo(rateLimiter.burst - 1, 0)
+	})
+
+	test('does not limit requests when the rate is 0', async () => {
+		serve(ok)
+		const rateLimiter = limiter(0)
+		const stats = createThrottleStats()
+
+		for (let index = 0; index < 50; index++) {
+			await fetchWithRetry(API_URL, {}, rateLimiter, stats, true)
+		}
+		expect(stats.waitedMs).toBe(0)
+	})
+})
+
+describe('retries', () => {
+	test('retries 429 and 503 responses until one succeeds', async () => {
+		const served = serve(status(429), status(503), ok)
+		const stats = createThrottleStats()
+
+		const response = await fetchWithRetry(API_URL, {}, limiter(0), stats, true)
+
+		expect(response.status).toBe(200)
+		expect(served.calls).toBe(3)
+		expect(stats.retries).toBe(2)
+	})
+
+	test('passes the last response through once the retries run out', async () => {
+		const served = serve(status(503))
+
+		const response = await fetchWithRetry(API_URL, {}, limiter(0, 2), createThrottleStats(), true)
+
+		expect(response.status).toBe(503)
+		expect(served.calls).toBe(3)
+	})
+
+	test('does not retry requests that are not retryable', async () => {
+		const served = serve(status(503), ok)
+
+		const response = await fetchWithRetry(API_URL, { method: 'POST' }, limiter(0), createThrottleStats(), false)
+
+		expect(response.status).toBe(503)
+		expect(served.calls).toBe(1)
+	})
+
+	test('waits as long as Retry-After asks before retrying', async () => {
+		serve(status(429, { 'Retry-After': '0.2' }), ok)
+		const rateLimiter = limiter(0)
+		const stats = createThrottleStats()
+
+		const startedAt = Date.now()
+		const response = await fetchWithRetry(API_URL, {}, rateLimiter, stats, true)
+
+		expect(response.status).toBe(200)
+		expect(Date.now() - startedAt).toBeGreaterThanOrEqual(190)
+		expect(stats.waitedMs).toBeGreaterThanOrEqual(200)
+		expect(rateLimiter.pausedUntil).toBeGreaterThan(startedAt)
+	})
+
+	test('gives up at once when Retry-After asks for longer than the longest backoff', async () => {
+		const served = serve(status(429, { 'Retry-After': '60' }), ok)
+
+		const response = await fetchWithRetry(API_URL, {}, limiter(0), createThrottleStats(), true)
+
+		expect(response.status).toBe(429)
+		expect(served.calls).toBe(1)
+	})
+})
@@ -0,0 +1,260 @@
+/**
+ * How long the requests of one tool call were held back, either waiting for
+ * the client-side rate limit or retrying after the server pushed back.
+ */
+export interface ThrottleStats {
+	retries: number
+	waitedMs: number
+}
+
+export interface RetryPolicy {
+	maxRetries: number
+	baseDelayMs: number
+	maxDelayMs: number
+}
+
+/**
+ * A token bucket shared by all requests to one instance. Tokens refill at
+ * `requestsPerSecond` up to `burst`; a request that finds the bucket empty
+ * reserves the next token and waits for it.
+ */
+export interface RateLimiter {
+	requestsPerSecond: number
+	burst: number
+	tokens: number
+	updatedAt: number
+	/** Set when the server reported its limit as exhausted */
+	pausedUntil: number
+	retry: RetryPolicy
+}
+
+const DEFAULT_REQUESTS_PER_SECOND = 10
+const DEFAULT_MAX_RETRIES = 3
+const BASE_DELAY_MS = 500
+const MAX_DELAY_MS = 30_000
+
+// Statuses that signal a busy or briefly unavailable server
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504])
+
+export function createRateLimiter(requestsPerSecond: number, retry: RetryPolicy): RateLimiter {
+	const burst = Math.max(1, Math.ceil(requestsPerSecond))
+	return {
+		requestsPerSecond,
+		burst,
+		tokens: burst,
+		updatedAt: Date.now(),
+		pausedUntil: 0,
+		retry,
+	}
+}
+
+export function createThrottleStats(): ThrottleStats {
+	return { retries: 0, waitedMs: 0 }
+}
+
+function readNumber(variable: string, fallback: number, minimum: number): number {
+	const value = process.env[variable]
+	if (!value) {
+		return fallback
+	}
+
+	const parsed = Number(value)
+	if (!Number.isFinite(parsed) || parsed < minimum) {
+		console.error(`Error: ${variable} must be a number of at least ${minimum}, got "${value}"`)
+		process.exit(1)
+	}
+
+	return parsed
+}
+
+/**
+ * Build the rate limiter from <prefix>_REQUESTS_PER_SECOND (default 10; 0
+ * turns the client-side limit off) and <prefix>_MAX_RETRIES (default 3).
+ */
+export function loadRateLimiterFromEnv(prefix: string): RateLimiter {
+	const requestsPerSecond = readNumber(
+		`${prefix}_REQUESTS_PER_SECOND`,
+		DEFAULT_REQUESTS_PER_SECOND,
+		0,
+	)
+	const maxRetries = readNumber(`${prefix}_MAX_RETRIES`, DEFAULT_MAX_RETRIES, 0)
+
+	return createRateLimiter(requestsPerSecond, {
+		maxRetries: Math.floor(maxRetries),
+		baseDelayMs: BASE_DELAY_MS,
+		maxDelayMs: MAX_DELAY_MS,
+	})
+}
+
+function sleep(ms: number, signal: AbortSignal | undefined): Promise<void> {
+	return new Promise((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(signal.reason)
+			return
+		}
+
+		const timer = setTimeout(() => {
+			signal?.removeEventListener('abort', onAbort)
+			resolve()
+		}, ms)
+
+		function onAbort() {
+			clearTimeout(timer)
+			reject(signal?.reason)
+		}
+
+		signal?.addEventListener('abort', onAbort, { once: true })
+	})
+}
+
+/**
+ * Take a token from the bucket, waiting when it is empty or the server asked
+ * us to pause. Returns how long the request was held back.
+ */
+async function acquireToken(limiter: RateLimiter, signal: AbortSignal | undefined): Promise<number> {
+	const now = Date.now()
+	let waitMs = Math.max(0, limiter.pausedUntil - now)
+
+	if (limiter.requestsPerSecond > 0) {
+		const refilled = ((now - limiter.updatedAt) / 1000) * limiter.requestsPerSecond
+		limiter.tokens = Math.min(limiter.burst, limiter.tokens + refilled) - 1
+		limiter.updatedAt = now
+
+		// A negative balance is a reservation on tokens that have yet to refill
+		if (limiter.tokens < 0) {
+			waitMs = Math.max(waitMs, (-limiter.tokens / limiter.requestsPerSecond) * 1000)
+		}
+	}
+
+	if (waitMs > 0) {
+		await sleep(waitMs, signal)
+	}
+
+	return waitMs
+}
+
+/**
+ * Milliseconds the server asked us to wait, from `Retry-After` (seconds or an
+ * HTTP date) or, once GitLab's `RateLimit-Remaining` reaches zero, from
+ * `RateLimit-Reset` (a Unix timestamp).
+ */
+function serverDelay(headers: Headers): number | undefined {
+	const retryAfter = headers.get('retry-after')
+	if (retryAfter) {
+		const seconds = Number(retryAfter)
+		if (Number.isFinite(seconds)) {
+			return Math.max(0, seconds * 1000)
+		}
+
+		const date = Date.parse(retryAfter)
+		if (!Number.isNaN(date)) {
+			return Math.max(0, date - Date.now())
+		}
+	}
+
+	const remaining = headers.get('ratelimit-remaining')
+	const reset = Number(headers.get('ratelimit-reset'))
+	if (remaining === '0' && Number.isFinite(reset) && reset > 0) {
+		return Math.max(0, reset * 1000 - Date.now())
+	}
+
+	return undefined
+}
+
+function backoffDelay(policy: RetryPolicy, attempt: number): number {
+	// Full jitter keeps concurrent walks from retrying in lockstep
+	const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt)
+	return Math.random() * ceiling
+}
+
+/**
+ * fetch() behind the rate limiter. Retryable requests are sent again with
+ * jittered exponential backoff after a network error or a 429/502/503/504,
+ * waiting at least as long as the server asked. The last response (or
+ * network error) is passed through once the retries run out.
+ */
+export async function fetchWithRetry(
+	url: string,
+	init: BunFetchRequestInit,
+	limiter: RateLimiter | undefined,
+	stats: ThrottleStats | undefined,
+	retryable: boolean,
+): Promise<Response> {
+	const signal = init.signal ?? undefined
+	const maxRetries = retryable && limiter ? limiter.retry.maxRetries : 0
+
+	for (let attempt = 0; ; attempt++) {
+		if (limiter) {
+			const waitedMs = await acquireToken(limiter, signal)
+			if (stats) {
+				stats.waitedMs += waitedMs
+			}
+		}
+
+		let response: Response
+		try {
+			response = await fetch(url, init)
+		} catch (error) {
+			if (signal?.aborted || attempt >= maxRetries || !limiter) {
+				throw error
+			}
+
+			await sleepBeforeRetry(backoffDelay(limiter.retry, attempt), stats, signal)
+			continue
+		}
+
+		const delay = serverDelay(response.headers)
+
+		// Hold back every other request until the server's window resets
+		if (limiter && delay !== undefined && (response.status === 429 || response.ok)) {
+			limiter.pausedUntil = Math.max(limiter.pausedUntil, Date.now() + delay)
+		}
+
+		if (!RETRYABLE_STATUSES.has(response.status) || attempt >= maxRetries || !limiter) {
+			return response
+		}
+
+		const waitMs = Math.max(delay ?? 0, backoffDelay(limiter.retry, attempt))
+		if (waitMs > limiter.retry.maxDelayMs) {
+			return response
+		}
+
+		await response.body?.cancel()
+		await sleepBeforeRetry(waitMs, stats, signal)
+	}
+}
+
+async function sleepBeforeRetry(
+	waitMs: number,
+	stats: ThrottleStats | undefined,
+	signal: AbortSignal | undefined,
+): Promise<void> {
+	if (stats) {
+		stats.retries++
+		stats.waitedMs += waitMs
+	}
+
+	await sleep(waitMs, signal)
+}
+
+/**
+ * Attach the throttling of a tool call to its result, so callers can tell a
+ * slow answer from a slow instance. Results are returned unchanged when the
+ * call was not held back.
+ */
+export function withThrottleReport<T extends object>(
+	result: T,
+	stats: ThrottleStats | undefined,
+): T & { throttled?: ThrottleStats } {
+	if (!stats || (stats.retries === 0 && stats.waitedMs < 1)) {
+		return result
+	}
+
+	return {
+		...result,
+		throttled: {
+			retries: stats.retries,
+			waitedMs: Math.round(stats.waitedMs),
+		},
+	}
+}
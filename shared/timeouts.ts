@@ -0,0 +1,37 @@
+/**
+ * How long each tool may run before its page walks stop and return what they
+ * have, by tool name. Tools missing from it get the default.
+ */
+export type ToolTimeouts = Record<string, number>
+
+const DEFAULT_TOOL_TIMEOUT_MS = 30_000
+
+// Requests still in flight this long after the deadline are aborted
+const ABORT_GRACE_MS = 10_000
+
+export const DEADLINE_WARNING = 'Stopped at the time limit; the results are incomplete'
+
+export interface ToolTimer {
+	/** Aborted when the client cancels or the tool overruns its deadline */
+	signal: AbortSignal
+	/** Epoch milliseconds after which page walks stop */
+	deadline: number
+	timeoutMs: number
+	/** When the signal aborts: the deadline plus a grace period for requests in flight */
+	abortAfterMs: number
+}
+
+export function startToolTimer(toolName: string, signal: AbortSignal, timeouts: ToolTimeouts): ToolTimer {
+	const timeoutMs = timeouts[toolName] ?? DEFAULT_TOOL_TIMEOUT_MS
+	const abortAfterMs = timeoutMs + ABORT_GRACE_MS
+	return {
+		signal: AbortSignal.any([signal, AbortSignal.timeout(abortAfterMs)]),
+		deadline: Date.now() + timeoutMs,
+		timeoutMs,
+		abortAfterMs,
+	}
+}
+
+export function pastDeadline(config: { deadline?: number }): boolean {
+	return config.deadline !== undefined && Date.now() >= config.deadline
+}